@@ -0,0 +1,174 @@
+// Local stand-in for the Azure Speech short audio REST API, so the game can be played
+// end-to-end without an Azure key.
+//
+// Usage: node server/fake-azure-speech.mjs [script.json]
+//
+// Then set VITE_AZURE_SPEECH_ENDPOINT=http://localhost:5050 and
+// VITE_AZURE_TOKEN_URL=http://localhost:5050/api/speech/token. The fake also answers the
+// Azure STS route, so server/speech-token.mjs can be pointed at it instead.
+//
+// Responses are taken from a queue of scripted steps, using the same format as the
+// in-browser mock provider (src/lib/recognition/mock.ts):
+//   { "transcript": "two", "alternatives": [{ "transcript": "to", "confidence": 0.4 }] }
+//   { "transcript": "the", "pronunciation": { "accuracy": 80, "fluency": 90, "completeness": 100,
+//     "overall": 85, "words": [{ "word": "the", "accuracy": 80, "errorType": "None",
+//     "phonemes": [{ "phoneme": "dh", "accuracy": 60 }, { "phoneme": "ah", "accuracy": 100 }] }] } }
+//   { "status": "NoMatch" }
+//   { "httpStatus": 429, "message": "Too many requests" }
+// When the queue is empty the first phrase from the speechcontext hint is "heard".
+// Pronunciation scores are only returned when the request asks for them with the
+// Pronunciation-Assessment header, like the real service.
+//
+// The queue can be inspected and changed while the server runs:
+//   GET /__script, POST /__script (JSON array of steps), DELETE /__script
+
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+
+const PORT = Number(process.env.FAKE_AZURE_PORT || 5050);
+const RECOGNITION_PATH = '/speech/recognition/conversation/cognitiveservices/v1';
+const STS_PATH = '/sts/v1.0/issueToken';
+const TOKEN_PATH = '/api/speech/token';
+const FAKE_TOKEN = 'fake-speech-token';
+
+let queue = process.argv[2] ? JSON.parse(readFileSync(process.argv[2], 'utf8')) : [];
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Ocp-Apim-Subscription-Key, Authorization, Content-Type, Accept, X-Requested-With, Pronunciation-Assessment'
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+// Mirror the "detailed" output format, where Display is capitalized and punctuated
+const toNBestItem = ({ transcript, confidence }) => {
+  const display = transcript.charAt(0).toUpperCase() + transcript.slice(1);
+  return {
+    Confidence: confidence,
+    Lexical: transcript.toLowerCase(),
+    ITN: transcript.toLowerCase(),
+    MaskedITN: transcript.toLowerCase(),
+    Display: /[.!?]$/.test(display) ? display : `${display}.`
+  };
+};
+
+// Scripted scores use the app's PronunciationAssessment shape; Azure puts them inline on
+// the NBest item, words and phonemes
+const toAzurePronunciation = (pronunciation) => ({
+  AccuracyScore: pronunciation.accuracy,
+  FluencyScore: pronunciation.fluency,
+  CompletenessScore: pronunciation.completeness,
+  PronScore: pronunciation.overall,
+  Words: (pronunciation.words ?? []).map(word => ({
+    Word: word.word,
+    AccuracyScore: word.accuracy,
+    ErrorType: word.errorType ?? 'None',
+    Phonemes: (word.phonemes ?? []).map(phoneme => ({
+      Phoneme: phoneme.phoneme,
+      AccuracyScore: phoneme.accuracy
+    }))
+  }))
+});
+
+const expectedPhrases = (url) => {
+  try {
+    const context = JSON.parse(url.searchParams.get('speechcontext') || '{}');
+    return Array.isArray(context.phrases) ? context.phrases : [];
+  } catch {
+    return [];
+  }
+};
+
+const handleRecognition = async (req, res, url) => {
+  if (!req.headers['ocp-apim-subscription-key'] && !req.headers.authorization) {
+    sendJson(res, 401, { error: { code: '401', message: 'Access denied due to missing subscription key.' } });
+    return;
+  }
+
+  const audio = await readBody(req);
+  const step = queue.shift() ?? { transcript: expectedPhrases(url)[0] ?? '' };
+  console.log(`Recognition request (${audio.length} bytes) -> ${JSON.stringify(step)}`);
+
+  if ('httpStatus' in step) {
+    res.writeHead(step.httpStatus, { ...CORS_HEADERS, 'Content-Type': 'text/plain' });
+    res.end(step.message ?? '');
+    return;
+  }
+
+  // Roughly 32 bytes per millisecond of 16kHz 16-bit audio, in 100ns ticks like Azure
+  const duration = Math.max(0, audio.length - 44) / 32 * 10000;
+
+  if ('status' in step) {
+    sendJson(res, 200, { RecognitionStatus: step.status, Offset: 0, Duration: duration });
+    return;
+  }
+
+  if (!step.transcript) {
+    sendJson(res, 200, { RecognitionStatus: 'NoMatch', Offset: 0, Duration: duration });
+    return;
+  }
+
+  const alternatives = step.alternatives ?? [{ transcript: step.transcript, confidence: 0.95 }];
+  const nBest = alternatives.map(toNBestItem);
+  if (step.pronunciation && req.headers['pronunciation-assessment']) {
+    Object.assign(nBest[0], toAzurePronunciation(step.pronunciation));
+  }
+  sendJson(res, 200, {
+    RecognitionStatus: 'Success',
+    Offset: 0,
+    Duration: duration,
+    DisplayText: nBest[0].Display,
+    NBest: nBest
+  });
+};
+
+const handleScript = async (req, res) => {
+  if (req.method === 'POST') {
+    const steps = JSON.parse((await readBody(req)).toString('utf8') || '[]');
+    queue.push(...(Array.isArray(steps) ? steps : [steps]));
+  } else if (req.method === 'DELETE') {
+    queue = [];
+  }
+  sendJson(res, 200, queue);
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+    } else if (req.method === 'POST' && url.pathname === RECOGNITION_PATH) {
+      await handleRecognition(req, res, url);
+    } else if (req.method === 'POST' && url.pathname === STS_PATH) {
+      res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'text/plain' });
+      res.end(FAKE_TOKEN);
+    } else if (req.method === 'POST' && url.pathname === TOKEN_PATH) {
+      sendJson(res, 200, { token: FAKE_TOKEN, region: 'local', expiresIn: 540 });
+    } else if (url.pathname === '/__script') {
+      await handleScript(req, res);
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    console.error('Fake Azure error:', error);
+    sendJson(res, 500, { error: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Fake Azure Speech endpoint listening on http://localhost:${PORT}`);
+  console.log(`${queue.length} scripted responses queued`);
+});
@@ -0,0 +1,106 @@
+// Exchanges the Azure Speech subscription key for short-lived authorization tokens, so
+// the key itself never reaches the browser.
+//
+// Usage: AZURE_SPEECH_KEY=... AZURE_SPEECH_REGION=westus node server/speech-token.mjs
+//
+// POST /api/speech/token -> { "token": "...", "region": "westus", "expiresIn": 540 }
+// POST /api/speech/token?refresh=1 skips the shared token, for a client Azure refused it to
+//
+// Optional environment:
+//   TOKEN_SERVER_PORT           Port to listen on (default 3001)
+//   ALLOWED_ORIGIN              Value for Access-Control-Allow-Origin when not same-origin
+//   AZURE_SPEECH_TOKEN_ENDPOINT Overrides the STS URL, e.g. the fake server's
+//                               http://localhost:5050/sts/v1.0/issueToken
+
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.TOKEN_SERVER_PORT || 3001);
+const TOKEN_PATH = '/api/speech/token';
+const { AZURE_SPEECH_KEY, AZURE_SPEECH_REGION, ALLOWED_ORIGIN } = process.env;
+const STS_ENDPOINT = process.env.AZURE_SPEECH_TOKEN_ENDPOINT
+  || `https://${AZURE_SPEECH_REGION}.api.cognitive.microsoft.com/sts/v1.0/issueToken`;
+
+// Azure tokens are valid for 10 minutes; hand them out for 9 so clients refresh in time
+const TOKEN_LIFETIME_SECONDS = 9 * 60;
+// A token this new is handed out even on refresh, so clients refused at the same moment
+// share one new token instead of each fetching their own
+const REFRESH_COOLDOWN_MS = 10 * 1000;
+
+if (!AZURE_SPEECH_KEY || !AZURE_SPEECH_REGION) {
+  console.error('AZURE_SPEECH_KEY and AZURE_SPEECH_REGION must be set');
+  process.exit(1);
+}
+
+// Share one token between clients rather than calling the STS endpoint per request
+let cachedToken = null;
+
+const issueToken = async (refresh = false) => {
+  const now = Date.now();
+  const valid = cachedToken && cachedToken.expiresAt > now + 60 * 1000;
+  const justIssued = cachedToken && cachedToken.issuedAt > now - REFRESH_COOLDOWN_MS;
+  if (valid && (!refresh || justIssued)) {
+    return cachedToken;
+  }
+
+  const response = await fetch(STS_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      'Ocp-Apim-Subscription-Key': AZURE_SPEECH_KEY,
+      'Content-Length': '0'
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Token request failed: ${response.status} ${response.statusText}`);
+  }
+
+  cachedToken = {
+    token: await response.text(),
+    issuedAt: Date.now(),
+    expiresAt: Date.now() + TOKEN_LIFETIME_SECONDS * 1000
+  };
+  return cachedToken;
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    ...(ALLOWED_ORIGIN ? { 'Access-Control-Allow-Origin': ALLOWED_ORIGIN } : {})
+  });
+  res.end(JSON.stringify(body));
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === 'OPTIONS' && ALLOWED_ORIGIN) {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+      'Access-Control-Allow-Methods': 'POST, OPTIONS'
+    });
+    res.end();
+    return;
+  }
+
+  if (req.method !== 'POST' || url.pathname !== TOKEN_PATH) {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  try {
+    const { token, expiresAt } = await issueToken(url.searchParams.has('refresh'));
+    sendJson(res, 200, {
+      token,
+      region: AZURE_SPEECH_REGION,
+      expiresIn: Math.floor((expiresAt - Date.now()) / 1000)
+    });
+  } catch (error) {
+    console.error('Error issuing speech token:', error);
+    sendJson(res, 502, { error: 'Could not issue speech token' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Speech token server listening on http://localhost:${PORT}${TOKEN_PATH}`);
+});
@@ -0,0 +1,74 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Square } from 'lucide-react';
+import { Button } from './ui/button';
+import { getAttemptAudio } from '@/lib/attemptAudio';
+
+interface AttemptAudioButtonProps {
+  audioId: string;
+}
+
+const AttemptAudioButton: React.FC<AttemptAudioButtonProps> = ({ audioId }) => {
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [unavailable, setUnavailable] = useState<boolean>(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const urlRef = useRef<string | null>(null);
+
+  const stop = () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    if (urlRef.current) {
+      URL.revokeObjectURL(urlRef.current);
+      urlRef.current = null;
+    }
+    setIsPlaying(false);
+  };
+
+  // Stop playback and free the object URL if the row goes away
+  useEffect(() => () => {
+    audioRef.current?.pause();
+    if (urlRef.current) {
+      URL.revokeObjectURL(urlRef.current);
+    }
+  }, []);
+
+  const play = async () => {
+    if (isPlaying) {
+      stop();
+      return;
+    }
+
+    const blob = await getAttemptAudio(audioId);
+    if (!blob) {
+      setUnavailable(true);
+      return;
+    }
+
+    urlRef.current = URL.createObjectURL(blob);
+    const audio = new Audio(urlRef.current);
+    audioRef.current = audio;
+    audio.onended = stop;
+    setIsPlaying(true);
+    try {
+      await audio.play();
+    } catch (error) {
+      console.error('Error playing attempt audio:', error);
+      stop();
+    }
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-8 w-8 rounded-full"
+      onClick={play}
+      disabled={unavailable}
+      aria-label={isPlaying ? 'Stop recording' : 'Play recording'}
+      title={unavailable ? 'Recording no longer available' : 'Play what was said'}
+    >
+      {isPlaying ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+    </Button>
+  );
+};
+
+export default AttemptAudioButton;
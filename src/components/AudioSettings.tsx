@@ -0,0 +1,123 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Settings } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from './ui/dialog';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Switch } from './ui/switch';
+import { AudioInputSettings, listAudioInputs } from '@/lib/audioSettings';
+
+interface AudioSettingsProps {
+  settings: AudioInputSettings;
+  onChange: (changes: Partial<AudioInputSettings>) => void;
+}
+
+// Radix Select items can't have an empty value, so the default device gets a sentinel
+const DEFAULT_DEVICE = 'default-device';
+
+const PROCESSING_OPTIONS: Array<{ key: keyof Omit<AudioInputSettings, 'deviceId'>; label: string }> = [
+  { key: 'echoCancellation', label: 'Echo cancellation' },
+  { key: 'noiseSuppression', label: 'Noise suppression' },
+  { key: 'autoGainControl', label: 'Automatic volume' }
+];
+
+const AudioSettings: React.FC<AudioSettingsProps> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [error, setError] = useState<string>('');
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      setDevices(await listAudioInputs());
+      setError('');
+    } catch (err) {
+      console.error('Error listing microphones:', err);
+      setError('Could not list microphones. Please check permissions.');
+    }
+  }, []);
+
+  // Only enumerate while the panel is open, and follow headsets being plugged in or out
+  useEffect(() => {
+    if (!open) return;
+    refreshDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+  }, [open, refreshDevices]);
+
+  const selectedDeviceMissing = settings.deviceId !== null
+    && devices.length > 0
+    && !devices.some(d => d.deviceId === settings.deviceId);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="rounded-full flex items-center gap-2">
+          <Settings size={18} />
+          Microphone
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Microphone settings</DialogTitle>
+          <DialogDescription>
+            These settings are saved on this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="audio-input">Microphone</Label>
+            <Select
+              value={settings.deviceId ?? DEFAULT_DEVICE}
+              onValueChange={value => onChange({ deviceId: value === DEFAULT_DEVICE ? null : value })}
+            >
+              <SelectTrigger id="audio-input">
+                <SelectValue placeholder="Default microphone" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_DEVICE}>Default microphone</SelectItem>
+                {devices
+                  .filter(device => device.deviceId && device.deviceId !== 'default')
+                  .map((device, index) => (
+                    <SelectItem key={device.deviceId} value={device.deviceId}>
+                      {device.label || `Microphone ${index + 1}`}
+                    </SelectItem>
+                  ))}
+                {selectedDeviceMissing && (
+                  <SelectItem value={settings.deviceId}>Saved microphone (not connected)</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+            {selectedDeviceMissing && (
+              <p className="text-orange-500 text-sm">
+                The saved microphone isn't connected, so the default one will be used.
+              </p>
+            )}
+          </div>
+
+          {PROCESSING_OPTIONS.map(({ key, label }) => (
+            <div key={key} className="flex items-center justify-between">
+              <Label htmlFor={`audio-${key}`}>{label}</Label>
+              <Switch
+                id={`audio-${key}`}
+                checked={settings[key]}
+                onCheckedChange={checked => onChange({ [key]: checked })}
+              />
+            </div>
+          ))}
+
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AudioSettings;
@@ -1,28 +1,23 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { Button } from './ui/button';
-import { Repeat } from 'lucide-react';
-
-interface GameLogEntry {
-  word: string;
-  userAnswer: string;
-  isCorrect: boolean;
-  timestamp: number;
-  difficulty: string;
-  attemptNumber: number;
-  possibilities: Array<{
-    word: string;
-    confidence: number;
-  }>;
-}
+import { Repeat, History } from 'lucide-react';
+import PronunciationScores from './PronunciationScores';
+import AttemptAudioButton from './AttemptAudioButton';
+import { GameLogEntry } from '@/lib/game/types';
 
 interface GameLogProps {
   logs: GameLogEntry[];
   onPlayAgain: () => void;
+  // Seed and rules of the word order, so the session can be shared or played again
+  sessionCode?: string | null;
+  onReplay?: () => void;
 }
 
-const GameLog: React.FC<GameLogProps> = ({ logs, onPlayAgain }) => {
+const GameLog: React.FC<GameLogProps> = ({ logs, onPlayAgain, sessionCode, onReplay }) => {
   const score = logs.filter(log => log.isCorrect).length;
+  const showPronunciation = logs.some(log => log.pronunciation);
+  const showLevel = logs.some(log => log.level);
 
   return (
     <motion.div 
@@ -39,6 +34,12 @@ const GameLog: React.FC<GameLogProps> = ({ logs, onPlayAgain }) => {
         Score: {score}
       </div>
 
+      {sessionCode != null && (
+        <div className="text-sm text-gray-500 -mt-6 mb-8">
+          Session code: {sessionCode}
+        </div>
+      )}
+
       <div className="w-full max-w-4xl mb-8">
         <div className="overflow-x-auto">
           <table className="w-full border-collapse">
@@ -47,6 +48,8 @@ const GameLog: React.FC<GameLogProps> = ({ logs, onPlayAgain }) => {
                 <th className="p-2 text-left">Word</th>
                 <th className="p-2 text-left">Your Answer</th>
                 <th className="p-2 text-left">Possibilities</th>
+                {showPronunciation && <th className="p-2 text-left">Pronunciation</th>}
+                {showLevel && <th className="p-2 text-left">Level</th>}
                 <th className="p-2 text-left">Attempt</th>
                 <th className="p-2 text-left">Result</th>
               </tr>
@@ -54,8 +57,24 @@ const GameLog: React.FC<GameLogProps> = ({ logs, onPlayAgain }) => {
             <tbody>
               {logs.map((log, index) => (
                 <tr key={index} className="border-b">
-                  <td className="p-2">{log.word}</td>
-                  <td className="p-2">{log.userAnswer}</td>
+                  <td className="p-2">
+                    {log.wordResults
+                      ? log.wordResults.map((result, i) => (
+                          <React.Fragment key={i}>
+                            {i > 0 && ' '}
+                            <span className={result.correct ? 'text-green-700' : 'text-red-600 line-through'}>
+                              {result.word}
+                            </span>
+                          </React.Fragment>
+                        ))
+                      : log.word}
+                  </td>
+                  <td className="p-2">
+                    <div className="flex items-center gap-1">
+                      {log.audioId && <AttemptAudioButton audioId={log.audioId} />}
+                      {log.userAnswer}
+                    </div>
+                  </td>
                   <td className="p-2">
                     {log.possibilities.map((p, i) => (
                       <div key={i} className="text-sm">
@@ -63,13 +82,24 @@ const GameLog: React.FC<GameLogProps> = ({ logs, onPlayAgain }) => {
                       </div>
                     ))}
                   </td>
+                  {showPronunciation && (
+                    <td className="p-2">
+                      {log.pronunciation && <PronunciationScores pronunciation={log.pronunciation} />}
+                    </td>
+                  )}
+                  {showLevel && <td className="p-2 capitalize">{log.level}</td>}
                   <td className="p-2">{log.attemptNumber}</td>
                   <td className="p-2">
                     <span className={`px-2 py-1 rounded ${
                       log.isCorrect ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
                     }`}>
-                      {log.isCorrect ? 'Correct' : 'Incorrect'}
+                      {log.isCorrect ? 'Correct' : log.skipped ? 'Skipped' : 'Incorrect'}
                     </span>
+                    {log.wordResults && (
+                      <div className="text-sm text-gray-500 mt-1">
+                        {log.wordResults.filter(result => result.correct).length}/{log.wordResults.length} words
+                      </div>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -78,13 +108,26 @@ const GameLog: React.FC<GameLogProps> = ({ logs, onPlayAgain }) => {
         </div>
       </div>
 
-      <Button 
-        onClick={onPlayAgain} 
-        className="bg-green-500 hover:bg-green-600 text-white text-xl py-6 px-8 rounded-full shadow-lg flex items-center gap-2"
-      >
-        <Repeat size={24} />
-        Play Again
-      </Button>
+      <div className="flex flex-wrap justify-center gap-4">
+        <Button 
+          onClick={onPlayAgain} 
+          className="bg-green-500 hover:bg-green-600 text-white text-xl py-6 px-8 rounded-full shadow-lg flex items-center gap-2"
+        >
+          <Repeat size={24} />
+          Play Again
+        </Button>
+
+        {onReplay && (
+          <Button
+            onClick={onReplay}
+            variant="outline"
+            className="text-xl py-6 px-8 rounded-full flex items-center gap-2"
+          >
+            <History size={24} />
+            Replay This Session
+          </Button>
+        )}
+      </div>
     </motion.div>
   );
 };
@@ -1,14 +1,16 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { Button } from './ui/button';
-import { Repeat, List } from 'lucide-react';
+import { Repeat, List, History } from 'lucide-react';
 
 interface GameOverProps {
   onPlayAgain: () => void;
   onShowAnswers: () => void;
+  // Play the same words in the same order again
+  onReplay?: () => void;
 }
 
-const GameOver: React.FC<GameOverProps> = ({ onPlayAgain, onShowAnswers }) => {
+const GameOver: React.FC<GameOverProps> = ({ onPlayAgain, onShowAnswers, onReplay }) => {
   return (
     <motion.div 
       className="flex flex-col items-center justify-center py-8"
@@ -36,6 +38,17 @@ const GameOver: React.FC<GameOverProps> = ({ onPlayAgain, onShowAnswers }) => {
           <Repeat size={24} />
           Play Again
         </Button>
+
+        {onReplay && (
+          <Button
+            onClick={onReplay}
+            variant="outline"
+            className="text-xl py-6 px-8 rounded-full flex items-center gap-2"
+          >
+            <History size={24} />
+            Replay This Session
+          </Button>
+        )}
       </div>
     </motion.div>
   );
@@ -0,0 +1,191 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from './ui/dialog';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Switch } from './ui/switch';
+import {
+  DIFFICULTIES,
+  findPreset,
+  GameConfig,
+  GamePreset,
+  GAME_PRESETS,
+  WORD_CATEGORIES
+} from '@/lib/game/config';
+
+interface GameSettingsProps {
+  config: GameConfig;
+  onChange: (config: GameConfig) => void;
+  // Words the current rules would play, to warn when the filters leave none
+  availableWords: number;
+}
+
+// Radix Select items can't have an empty value, so hand-edited rules get a sentinel
+const CUSTOM_PRESET = 'custom';
+
+const ATTEMPT_OPTIONS = [1, 2, 3];
+// 0 means every matching word
+const SESSION_LENGTH_OPTIONS = [5, 10, 20, 0];
+
+const CATEGORY_LABELS: Record<GameConfig['categories'][number], string> = {
+  word: 'Words',
+  phrase: 'Phrases',
+  sentence: 'Sentences'
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const toggle = <T,>(items: T[], item: T, checked: boolean): T[] =>
+  checked ? [...items.filter(i => i !== item), item] : items.filter(i => i !== item);
+
+const GameSettings: React.FC<GameSettingsProps> = ({ config, onChange, availableWords }) => {
+  const preset = findPreset(config) ?? CUSTOM_PRESET;
+  const update = (changes: Partial<GameConfig>) => onChange({ ...config, ...changes });
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex items-center gap-3">
+        <Label htmlFor="game-preset">Game</Label>
+        <Select
+          value={preset}
+          onValueChange={value => {
+            if (value !== CUSTOM_PRESET) onChange(GAME_PRESETS[value as GamePreset].config);
+          }}
+        >
+          <SelectTrigger id="game-preset" className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(GAME_PRESETS) as GamePreset[]).map(key => (
+              <SelectItem key={key} value={key}>{GAME_PRESETS[key].label}</SelectItem>
+            ))}
+            {preset === CUSTOM_PRESET && <SelectItem value={CUSTOM_PRESET}>Custom</SelectItem>}
+          </SelectContent>
+        </Select>
+
+        <Dialog>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="icon" className="rounded-full" aria-label="Game rules">
+              <SlidersHorizontal size={18} />
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Game rules</DialogTitle>
+              <DialogDescription>
+                Choose which words to play and how many tries each one gets.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="flex flex-col gap-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="game-attempts">Tries per word</Label>
+                <Select
+                  value={String(config.maxAttempts)}
+                  onValueChange={value => update({ maxAttempts: Number(value) })}
+                >
+                  <SelectTrigger id="game-attempts" className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ATTEMPT_OPTIONS.map(attempts => (
+                      <SelectItem key={attempts} value={String(attempts)}>{attempts}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="game-length">Words per game</Label>
+                <Select
+                  value={String(config.sessionLength)}
+                  onValueChange={value => update({ sessionLength: Number(value) })}
+                >
+                  <SelectTrigger id="game-length" className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SESSION_LENGTH_OPTIONS.map(length => (
+                      <SelectItem key={length} value={String(length)}>
+                        {length === 0 ? 'All' : length}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex flex-col gap-2">
+                <Label>Levels</Label>
+                <div className="flex gap-4">
+                  {DIFFICULTIES.map(difficulty => (
+                    <div key={difficulty} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`game-difficulty-${difficulty}`}
+                        checked={config.difficulties.includes(difficulty)}
+                        onCheckedChange={checked => update({
+                          difficulties: toggle(config.difficulties, difficulty, checked === true)
+                        })}
+                      />
+                      <Label htmlFor={`game-difficulty-${difficulty}`}>{capitalize(difficulty)}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-col gap-2">
+                <Label>Include</Label>
+                <div className="flex gap-4">
+                  {WORD_CATEGORIES.map(category => (
+                    <div key={category} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`game-category-${category}`}
+                        checked={config.categories.includes(category)}
+                        onCheckedChange={checked => update({
+                          categories: toggle(config.categories, category, checked === true)
+                        })}
+                      />
+                      <Label htmlFor={`game-category-${category}`}>{CATEGORY_LABELS[category]}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="game-skips">Skipped words count as wrong</Label>
+                <Switch
+                  id="game-skips"
+                  checked={config.skipsCountAsMisses}
+                  onCheckedChange={checked => update({ skipsCountAsMisses: checked })}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="game-adaptive">Start easy and adjust the level</Label>
+                <Switch
+                  id="game-adaptive"
+                  checked={config.adaptive}
+                  onCheckedChange={checked => update({ adaptive: checked })}
+                />
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {availableWords === 0 && (
+        <p className="text-orange-500 text-sm">No words match these rules.</p>
+      )}
+    </div>
+  );
+};
+
+export default GameSettings;
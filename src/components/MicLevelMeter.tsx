@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface MicLevelMeterProps {
+  // Input level in the range 0–1, see toMeterLevel
+  level: number;
+  active: boolean;
+  clipping?: boolean;
+  children: React.ReactNode;
+}
+
+const MicLevelMeter: React.FC<MicLevelMeterProps> = ({ level, active, clipping = false, children }) => {
+  return (
+    <div className="relative flex items-center justify-center">
+      <div
+        className={`absolute inset-0 rounded-full transition-transform duration-75 ease-out ${
+          clipping ? 'bg-orange-400/70' : 'bg-red-300/60'
+        }`}
+        style={{
+          transform: `scale(${active ? 1 + level * 0.75 : 1})`,
+          opacity: active ? 1 : 0
+        }}
+        aria-hidden="true"
+      />
+      <div className="relative">{children}</div>
+    </div>
+  );
+};
+
+export default MicLevelMeter;
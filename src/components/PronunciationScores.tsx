@@ -0,0 +1,47 @@
+import React from 'react';
+import { PronunciationAssessment } from '@/lib/recognition';
+
+interface PronunciationScoresProps {
+  pronunciation: PronunciationAssessment;
+}
+
+const scoreClass = (score: number) => {
+  if (score >= 80) {
+    return 'bg-green-100 text-green-800';
+  } else if (score >= 60) {
+    return 'bg-yellow-100 text-yellow-800';
+  } else {
+    return 'bg-red-100 text-red-800';
+  }
+};
+
+const PronunciationScores: React.FC<PronunciationScoresProps> = ({ pronunciation }) => {
+  return (
+    <div className="flex flex-col gap-1 text-sm">
+      <div
+        title={`Accuracy ${pronunciation.accuracy}, fluency ${pronunciation.fluency}, completeness ${pronunciation.completeness}`}
+      >
+        Score: <span className="font-semibold">{Math.round(pronunciation.overall)}</span>
+      </div>
+      {pronunciation.words.map((word, i) => (
+        <div key={i} className="flex flex-wrap items-center gap-1">
+          {pronunciation.words.length > 1 && <span className="mr-1">{word.word}:</span>}
+          {word.errorType !== 'None' && (
+            <span className="text-red-600 text-xs">{word.errorType}</span>
+          )}
+          {word.phonemes.map((phoneme, j) => (
+            <span
+              key={j}
+              className={`px-1 rounded font-mono ${scoreClass(phoneme.accuracy)}`}
+              title={`${phoneme.phoneme}: ${phoneme.accuracy}`}
+            >
+              {phoneme.phoneme}
+            </span>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PronunciationScores;
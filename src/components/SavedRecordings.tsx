@@ -0,0 +1,109 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { FileAudio, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from './ui/dialog';
+import AttemptAudioButton from './AttemptAudioButton';
+import { deleteSavedRecordings, listSavedRecordings, SavedRecording } from '@/lib/attemptAudio';
+
+const SavedRecordings: React.FC = () => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [recordings, setRecordings] = useState<SavedRecording[]>([]);
+  const [error, setError] = useState<string>('');
+
+  const refreshRecordings = useCallback(async () => {
+    try {
+      setRecordings(await listSavedRecordings());
+      setError('');
+    } catch (err) {
+      console.error('Error listing saved recordings:', err);
+      setError('Could not read the recordings saved on this device.');
+    }
+  }, []);
+
+  // Only read the database while the panel is open
+  useEffect(() => {
+    if (open) {
+      refreshRecordings();
+    }
+  }, [open, refreshRecordings]);
+
+  const handleDelete = async () => {
+    try {
+      await deleteSavedRecordings();
+      setRecordings([]);
+      setError('');
+    } catch (err) {
+      console.error('Error deleting saved recordings:', err);
+      setError('Could not delete the saved recordings.');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="rounded-full flex items-center gap-2">
+          <FileAudio size={18} />
+          Saved recordings
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Saved recordings</DialogTitle>
+          <DialogDescription>
+            Recordings kept on this device while "Save recordings on this device" was on.
+          </DialogDescription>
+        </DialogHeader>
+
+        {recordings.length > 0 ? (
+          <div className="max-h-80 overflow-y-auto">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="bg-gray-100">
+                  <th className="p-2 text-left">Word</th>
+                  <th className="p-2 text-left">Heard</th>
+                  <th className="p-2 text-left">When</th>
+                  <th className="p-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {recordings.map(recording => (
+                  <tr key={recording.id} className="border-b">
+                    <td className="p-2">{recording.word ?? '-'}</td>
+                    <td className="p-2">{recording.transcript ?? '-'}</td>
+                    <td className="p-2">{new Date(recording.createdAt).toLocaleString()}</td>
+                    <td className="p-2">
+                      <AttemptAudioButton audioId={recording.id} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          !error && <p className="text-gray-500 text-sm">No recordings are saved on this device.</p>
+        )}
+
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        <Button
+          variant="destructive"
+          className="rounded-full flex items-center gap-2 self-end"
+          onClick={handleDelete}
+          disabled={recordings.length === 0}
+        >
+          <Trash2 size={18} />
+          Delete all
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SavedRecordings;
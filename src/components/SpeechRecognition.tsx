@@ -1,35 +1,248 @@
 /// <reference types="vite/client" />
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { Mic, MicOff } from 'lucide-react';
+import { Mic, MicOff, WifiOff } from 'lucide-react';
+import {
+  createRecognitionProvider,
+  DEFAULT_RETRY_POLICY,
+  getRecognitionErrorMessage,
+  isNoSpeechError,
+  LiveRecognitionProvider,
+  LiveRecognitionSession,
+  PronunciationAssessment,
+  RecognitionAlternative,
+  RecognitionError,
+  RecognitionProvider,
+  RecognitionResult,
+  RetryPolicy,
+  StreamingRecognitionProvider,
+  StreamingRecognitionSession,
+  withRetry
+} from '@/lib/recognition';
+import MicLevelMeter from '@/components/MicLevelMeter';
+import {
+  CLIPPING_LEVEL,
+  convertToWav,
+  QUIET_PEAK_LEVEL,
+  resampleAudio,
+  toMeterLevel,
+  trimSilence
+} from '@/lib/audio';
+import { AudioInputSettings, buildAudioConstraints, DEFAULT_AUDIO_SETTINGS } from '@/lib/audioSettings';
+import { startPcmCapture } from '@/lib/pcmStream';
+import { DEFAULT_VAD_OPTIONS, startVoiceActivityDetection, VadOptions } from '@/lib/vad';
+
+// Extra information about a result beyond the transcript and alternatives
+export interface SpeechResultDetails {
+  pronunciation?: PronunciationAssessment;
+  // The 16kHz WAV that was recognized, for engines that work on recorded audio
+  audio?: Blob;
+}
 
 interface SpeechRecognitionProps {
-  onResult: (transcript: string, alternatives?: Array<{ transcript: string; confidence: number }>) => void;
+  onResult: (transcript: string, alternatives?: RecognitionAlternative[], details?: SpeechResultDetails) => void;
+  // Streaming engines only: return true to accept an interim hypothesis as the result
+  // straight away instead of waiting for the child to finish and the final result
+  onInterimResult?: (transcript: string, alternatives: RecognitionAlternative[]) => boolean;
   isListening: boolean;
   setIsListening: (isListening: boolean) => void;
   isProcessing: boolean;
   setIsProcessing: (isProcessing: boolean) => void;
   addStatus?: (msg: string) => void;
   expectedWords?: string[];
+  provider?: RecognitionProvider;
+  // Voice activity detection: ends the recording automatically after the child stops talking
+  vad?: Partial<VadOptions>;
+  // Hands-free mode: keep the microphone open and re-arm after every result
+  continuous?: boolean;
+  // In hands-free mode, pause after this many prompts in a row with no speech
+  maxSilentPrompts?: number;
+  // Microphone device and processing options, see AudioSettings.tsx
+  audioSettings?: AudioInputSettings;
+  // Ask the engine to score pronunciation against the expected words, where supported
+  assessPronunciation?: boolean;
+  // Request timeout and retries for engines that upload recorded audio
+  retryPolicy?: Partial<RetryPolicy>;
 }
 
+type PauseReason = 'hidden' | 'silence' | 'error';
+type LevelWarning = 'quiet' | 'loud';
+
 const SpeechRecognition: React.FC<SpeechRecognitionProps> = ({
   onResult,
+  onInterimResult,
   isListening,
   setIsListening,
   isProcessing,
   setIsProcessing,
   addStatus,
-  expectedWords = []
+  expectedWords = [],
+  provider: providerProp,
+  vad,
+  continuous = false,
+  maxSilentPrompts = 3,
+  audioSettings = DEFAULT_AUDIO_SETTINGS,
+  assessPronunciation = false,
+  retryPolicy
 }) => {
   const [errorMessage, setErrorMessage] = useState<string>('');
+  const [pauseReason, setPauseReason] = useState<PauseReason | null>(null);
+  const [inputLevel, setInputLevel] = useState<number>(0);
+  const [levelWarning, setLevelWarning] = useState<LevelWarning | null>(null);
+  // The recognition service is failing or needed retries recently
+  const [degraded, setDegraded] = useState<boolean>(false);
+  const provider = useMemo(() => providerProp ?? createRecognitionProvider(), [providerProp]);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const recordingStartTimeRef = useRef<number>(0);
   const MIN_RECORDING_DURATION = 100; // Reduced to 100ms for very short words
   const MAX_RECORDING_DURATION = 2000; // Reduced to 2 seconds max
+  const CONTINUOUS_LISTEN_DURATION = 5000; // Hands-free prompts wait longer for the child to start
+  const EXTRA_WORD_DURATION = 700; // Phrases and sentences get longer per additional word
+  const REARM_DELAY = 500; // Let the feedback toast and next word appear before listening again
   const recordingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const liveSessionRef = useRef<LiveRecognitionSession | null>(null);
+  // Controls for an in-progress streaming recognition
+  const streamingRef = useRef<{ stop: () => void; abort: () => void } | null>(null);
+  const stopVadRef = useRef<(() => void) | null>(null);
+  // Hands-free mode keeps one microphone stream open across recordings
+  const streamRef = useRef<MediaStream | null>(null);
+  const speechDetectedRef = useRef(false);
+  const silentPromptsRef = useRef(0);
+  const discardRecordingRef = useRef(false);
+  // Loudest input seen during the current recording, checked before sending it off
+  const levelStatsRef = useRef({ peak: 0, clippedFrames: 0 });
+
+  // Recording callbacks outlive the render that created them, so read the latest props via refs
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+  const onInterimResultRef = useRef(onInterimResult);
+  onInterimResultRef.current = onInterimResult;
+  const expectedWordsRef = useRef(expectedWords);
+  expectedWordsRef.current = expectedWords;
+  const vadOptionsRef = useRef<VadOptions>(DEFAULT_VAD_OPTIONS);
+  vadOptionsRef.current = { ...DEFAULT_VAD_OPTIONS, ...vad };
+  const continuousRef = useRef(continuous);
+  continuousRef.current = continuous;
+  const maxSilentPromptsRef = useRef(maxSilentPrompts);
+  maxSilentPromptsRef.current = maxSilentPrompts;
+  const audioSettingsRef = useRef(audioSettings);
+  audioSettingsRef.current = audioSettings;
+  const assessPronunciationRef = useRef(assessPronunciation);
+  assessPronunciationRef.current = assessPronunciation;
+  const retryPolicyRef = useRef<RetryPolicy>(DEFAULT_RETRY_POLICY);
+  retryPolicyRef.current = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
+
+  // Warm up providers that need it (e.g. downloading the offline model) before the first word
+  useEffect(() => {
+    if (!provider.prepare) return;
+    addStatus?.(`Preparing ${provider.name} provider...`);
+    provider.prepare()
+      .then(() => addStatus?.(`${provider.name} provider ready`))
+      .catch(error => addStatus?.(`Error preparing ${provider.name} provider: ${error.message}`));
+  }, [provider, addStatus]);
+
+  // Release the VAD's audio graph and any held microphone if the component goes away
+  useEffect(() => () => {
+    stopVadRef.current?.();
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  // Leaving hands-free mode releases the shared microphone stream
+  useEffect(() => {
+    if (continuous) return;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setPauseReason(null);
+  }, [continuous]);
+
+  // A different microphone or processing option needs a fresh stream next time
+  useEffect(() => {
+    if (streamRef.current && !mediaRecorderRef.current && !streamingRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+  }, [audioSettings]);
+
+  const acquireStream = async (): Promise<MediaStream> => {
+    if (continuousRef.current && streamRef.current?.active) {
+      return streamRef.current;
+    }
+
+    const settings = audioSettingsRef.current;
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(settings) });
+    } catch (error) {
+      // The saved microphone may have been unplugged; fall back to the default one
+      if (!settings.deviceId || !['OverconstrainedError', 'NotFoundError'].includes(error.name)) {
+        throw error;
+      }
+      addStatus?.("Selected microphone unavailable, using the default microphone");
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: buildAudioConstraints({ ...settings, deviceId: null })
+      });
+    }
+
+    if (continuousRef.current) {
+      streamRef.current = stream;
+    }
+    return stream;
+  };
+
+  const maxRecordingDuration = () => {
+    const wordCount = expectedWordsRef.current.join(' ').split(/\s+/).filter(Boolean).length;
+    const base = continuousRef.current ? CONTINUOUS_LISTEN_DURATION : MAX_RECORDING_DURATION;
+    return base + Math.max(0, wordCount - 1) * EXTRA_WORD_DURATION;
+  };
+
+  const releaseStream = (stream: MediaStream) => {
+    if (stream !== streamRef.current) {
+      stream.getTracks().forEach(track => track.stop());
+    }
+  };
+
+  const handleSilentPrompt = useCallback(() => {
+    silentPromptsRef.current += 1;
+    addStatus?.(`No speech heard (${silentPromptsRef.current}/${maxSilentPromptsRef.current} silent prompts)`);
+    if (silentPromptsRef.current >= maxSilentPromptsRef.current) {
+      addStatus?.("Too many silent prompts, pausing hands-free listening");
+      setPauseReason('silence');
+    }
+  }, [addStatus]);
+
+  // Drive the level meter and, with VAD enabled, call onSpeechEnd once the child has
+  // spoken and gone quiet
+  const monitorInput = (stream: MediaStream, onSpeechEnd: () => void) => {
+    // Without VAD there's no way to tell silence apart, so assume the child spoke
+    speechDetectedRef.current = !vadOptionsRef.current.enabled;
+    levelStatsRef.current = { peak: 0, clippedFrames: 0 };
+    setLevelWarning(null);
+
+    stopVadRef.current = startVoiceActivityDetection(stream, vadOptionsRef.current, {
+      onSpeechStart: () => {
+        speechDetectedRef.current = true;
+        silentPromptsRef.current = 0;
+        addStatus?.("Speech detected");
+      },
+      onSpeechEnd: () => {
+        addStatus?.("End of speech detected, submitting recording");
+        onSpeechEnd();
+      },
+      onLevel: ({ rms, peak }) => {
+        const stats = levelStatsRef.current;
+        stats.peak = Math.max(stats.peak, peak);
+        if (peak >= CLIPPING_LEVEL) {
+          stats.clippedFrames += 1;
+          setLevelWarning('loud');
+        }
+        // Round so small fluctuations don't re-render on every poll
+        setInputLevel(Math.round(toMeterLevel(rms) * 20) / 20);
+      }
+    });
+  };
 
   const getMicrophoneButtonClass = () => {
     if (isProcessing) {
@@ -41,18 +254,204 @@ const SpeechRecognition: React.FC<SpeechRecognitionProps> = ({
     }
   };
 
+  const startLiveRecognition = useCallback(async (liveProvider: LiveRecognitionProvider) => {
+    if (!liveProvider.isAvailable()) {
+      setErrorMessage('Speech recognition is not supported in this browser.');
+      addStatus?.(`${liveProvider.name} provider is not available in this browser`);
+      return;
+    }
+
+    const session = liveProvider.listen(expectedWordsRef.current, addStatus);
+    const maxDuration = maxRecordingDuration();
+    liveSessionRef.current = session;
+    setIsListening(true);
+    setErrorMessage('');
+    addStatus?.("Recording started");
+
+    // Set a maximum recording duration
+    recordingTimeoutRef.current = setTimeout(() => {
+      if (liveSessionRef.current === session) {
+        session.stop();
+        setIsListening(false);
+        setIsProcessing(true);
+        addStatus?.("Recording stopped");
+      }
+    }, maxDuration);
+
+    try {
+      const { transcript, alternatives } = await session.result;
+      silentPromptsRef.current = 0;
+      onResultRef.current(transcript, alternatives);
+      setDegraded(false);
+      addStatus?.("Successfully processed speech");
+    } catch (error) {
+      if (error.message === 'Recognition aborted') {
+        addStatus?.("Recording discarded");
+        return;
+      }
+      if (continuousRef.current && isNoSpeechError(error)) {
+        handleSilentPrompt();
+        return;
+      }
+      console.error('Error processing speech:', error);
+      setErrorMessage(getRecognitionErrorMessage(error));
+      setDegraded(error instanceof RecognitionError && error.retryable);
+      addStatus?.(`Error processing speech: ${error.message}`);
+    } finally {
+      if (recordingTimeoutRef.current) {
+        clearTimeout(recordingTimeoutRef.current);
+        recordingTimeoutRef.current = null;
+      }
+      if (liveSessionRef.current === session) {
+        liveSessionRef.current = null;
+      }
+      setIsListening(false);
+      setIsProcessing(false);
+    }
+  }, [setIsListening, setIsProcessing, addStatus, handleSilentPrompt]);
+
+  // Streams audio to the engine while recording so interim hypotheses can end the attempt early
+  const startStreamingRecognition = useCallback(async (streamingProvider: StreamingRecognitionProvider) => {
+    let stream: MediaStream | null = null;
+    let session: StreamingRecognitionSession | null = null;
+    let stopCapture: (() => void) | null = null;
+    let captureEnded = false;
+    let discarded = false;
+    let acceptedInterim: RecognitionResult | null = null;
+    let resolveCaptureEnded: () => void;
+    const captureEndedPromise = new Promise<void>(resolve => {
+      resolveCaptureEnded = resolve;
+    });
+
+    const endCapture = () => {
+      if (captureEnded) return;
+      captureEnded = true;
+      stopCapture?.();
+      stopVadRef.current?.();
+      stopVadRef.current = null;
+      setInputLevel(0);
+      if (recordingTimeoutRef.current) {
+        clearTimeout(recordingTimeoutRef.current);
+        recordingTimeoutRef.current = null;
+      }
+      if (stream) {
+        releaseStream(stream);
+      }
+      streamingRef.current = null;
+      setIsListening(false);
+      resolveCaptureEnded();
+    };
+
+    const handleInterim = (result: RecognitionResult) => {
+      addStatus?.(`Interim result: "${result.transcript}"`);
+      if (captureEnded || !onInterimResultRef.current?.(result.transcript, result.alternatives)) return;
+      addStatus?.("Interim result accepted, ending recording early");
+      acceptedInterim = result;
+      endCapture();
+      session?.abort();
+    };
+
+    try {
+      stream = await acquireStream();
+      session = await streamingProvider.open(expectedWordsRef.current, { onInterim: handleInterim }, addStatus);
+      const openSession = session;
+      stopCapture = await startPcmCapture(stream, frame => openSession.write(frame));
+    } catch (error) {
+      session?.abort();
+      if (stream) {
+        releaseStream(stream);
+      }
+      console.error('Error starting streaming recognition:', error);
+      setErrorMessage('Error starting speech recognition. Please check your microphone and connection.');
+      addStatus?.(`Error starting streaming recognition: ${error.message}`);
+      if (continuousRef.current) {
+        setPauseReason('error');
+      }
+      return;
+    }
+
+    streamingRef.current = {
+      stop: endCapture,
+      abort: () => {
+        discarded = true;
+        endCapture();
+        session.abort();
+      }
+    };
+    monitorInput(stream, endCapture);
+    recordingTimeoutRef.current = setTimeout(
+      endCapture,
+      maxRecordingDuration()
+    );
+    setIsListening(true);
+    setErrorMessage('');
+    addStatus?.("Recording started");
+
+    await captureEndedPromise;
+    addStatus?.("Recording stopped");
+
+    if (discarded) {
+      addStatus?.("Recording discarded");
+      return;
+    }
+
+    if (acceptedInterim) {
+      silentPromptsRef.current = 0;
+      // Capture has already reported listening as stopped; deliver the result while
+      // processing, like a final one, so it's taken as the answer to this attempt
+      setIsProcessing(true);
+      onResultRef.current(acceptedInterim.transcript, acceptedInterim.alternatives);
+      setIsProcessing(false);
+      addStatus?.("Successfully processed speech");
+      return;
+    }
+
+    if (continuousRef.current && !speechDetectedRef.current) {
+      session.abort();
+      handleSilentPrompt();
+      return;
+    }
+
+    if (!streamingProvider.scripted && levelStatsRef.current.peak < QUIET_PEAK_LEVEL) {
+      addStatus?.(`Recording too quiet (peak ${levelStatsRef.current.peak.toFixed(3)}), not sending`);
+      session.abort();
+      setLevelWarning('quiet');
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const { transcript, alternatives, pronunciation } = await session.finish();
+      silentPromptsRef.current = 0;
+      onResultRef.current(transcript, alternatives, { pronunciation });
+      setDegraded(false);
+      addStatus?.("Successfully processed speech");
+    } catch (error) {
+      if (continuousRef.current && isNoSpeechError(error)) {
+        handleSilentPrompt();
+        return;
+      }
+      console.error('Error processing speech:', error);
+      setErrorMessage(getRecognitionErrorMessage(error));
+      setDegraded(error instanceof RecognitionError && error.retryable);
+      addStatus?.(`Error processing speech: ${error.message}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [setIsListening, setIsProcessing, addStatus, handleSilentPrompt]);
+
   const startRecording = useCallback(async () => {
+    if (provider.kind === 'live') {
+      await startLiveRecognition(provider);
+      return;
+    }
+    if (provider.kind === 'stream') {
+      await startStreamingRecognition(provider);
+      return;
+    }
+
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          channelCount: 1,
-          sampleRate: 16000, // Set to 16kHz directly
-          sampleSize: 16,
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true
-        } 
-      });
+      const stream = await acquireStream();
       
       const mediaRecorder = new MediaRecorder(stream, {
         mimeType: 'audio/webm;codecs=opus',
@@ -62,13 +461,19 @@ const SpeechRecognition: React.FC<SpeechRecognitionProps> = ({
       mediaRecorderRef.current = mediaRecorder;
       audioChunksRef.current = [];
       recordingStartTimeRef.current = Date.now();
-
+      discardRecordingRef.current = false;
       // Set a maximum recording duration
       recordingTimeoutRef.current = setTimeout(() => {
         if (mediaRecorderRef.current?.state === 'recording') {
           stopRecording();
         }
-      }, MAX_RECORDING_DURATION);
+      }, maxRecordingDuration());
+
+      monitorInput(stream, () => {
+        if (mediaRecorderRef.current?.state === 'recording') {
+          stopRecording();
+        }
+      });
 
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
@@ -78,11 +483,35 @@ const SpeechRecognition: React.FC<SpeechRecognitionProps> = ({
       };
 
       mediaRecorder.onstop = async () => {
+        stopVadRef.current?.();
+        stopVadRef.current = null;
+        setInputLevel(0);
+
         if (recordingTimeoutRef.current) {
           clearTimeout(recordingTimeoutRef.current);
           recordingTimeoutRef.current = null;
         }
 
+        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm;codecs=opus' });
+
+        // Clean up
+        releaseStream(stream);
+        mediaRecorderRef.current = null;
+        audioChunksRef.current = [];
+
+        if (discardRecordingRef.current) {
+          discardRecordingRef.current = false;
+          addStatus?.("Recording discarded");
+          setIsListening(false);
+          return;
+        }
+
+        if (continuousRef.current && !speechDetectedRef.current) {
+          setIsListening(false);
+          handleSilentPrompt();
+          return;
+        }
+
         const recordingDuration = Date.now() - recordingStartTimeRef.current;
         addStatus?.(`Recording duration: ${recordingDuration}ms`);
 
@@ -93,14 +522,21 @@ const SpeechRecognition: React.FC<SpeechRecognitionProps> = ({
           return;
         }
 
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm;codecs=opus' });
+        // Near-silent clips almost always come back as NoMatch, so don't send them to a
+        // recognizer that listens
+        const { peak: recordingPeak, clippedFrames } = levelStatsRef.current;
+        if (!provider.scripted && recordingPeak < QUIET_PEAK_LEVEL) {
+          addStatus?.(`Recording too quiet (peak ${recordingPeak.toFixed(3)}), not sending`);
+          setLevelWarning('quiet');
+          setIsListening(false);
+          return;
+        }
+        if (clippedFrames > 0) {
+          addStatus?.(`Recording clipped in ${clippedFrames} frames`);
+        }
+
         addStatus?.(`Total audio size: ${audioBlob.size} bytes`);
         await processAudio(audioBlob);
-        
-        // Clean up
-        stream.getTracks().forEach(track => track.stop());
-        mediaRecorderRef.current = null;
-        audioChunksRef.current = [];
       };
 
       // Start recording and collect all data in a single chunk
@@ -112,16 +548,32 @@ const SpeechRecognition: React.FC<SpeechRecognitionProps> = ({
       console.error('Error starting recording:', error);
       setErrorMessage('Error accessing microphone. Please check permissions.');
       addStatus?.("Error starting recording");
+      if (continuousRef.current) {
+        setPauseReason('error');
+      }
     }
-  }, [setIsListening, addStatus]);
+  }, [provider, startLiveRecognition, startStreamingRecognition, setIsListening, addStatus, handleSilentPrompt]);
 
   const stopRecording = useCallback(() => {
+    if (streamingRef.current) {
+      streamingRef.current.stop();
+      return;
+    }
+
+    if (liveSessionRef.current) {
+      liveSessionRef.current.stop();
+      setIsListening(false);
+      setIsProcessing(true);
+      addStatus?.("Recording stopped");
+      return;
+    }
+
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
       mediaRecorderRef.current.stop();
       setIsListening(false);
       addStatus?.("Recording stopped");
     }
-  }, [setIsListening, addStatus]);
+  }, [setIsListening, setIsProcessing, addStatus]);
 
   const processAudio = async (audioBlob: Blob) => {
     setIsProcessing(true);
@@ -139,160 +591,158 @@ const SpeechRecognition: React.FC<SpeechRecognitionProps> = ({
       const resampledBuffer = await resampleAudio(audioBuffer, 16000);
       addStatus?.(`Resampled audio details: ${resampledBuffer.numberOfChannels} channels, ${resampledBuffer.sampleRate}Hz, ${resampledBuffer.length} samples`);
       
+      // Trim leading/trailing silence so the recognizer only hears the word
+      const vadOptions = vadOptionsRef.current;
+      const speechBuffer = vadOptions.enabled
+        ? trimSilence(resampledBuffer, vadOptions.silenceThreshold, vadOptions.trimPaddingMs)
+        : resampledBuffer;
+      if (speechBuffer !== resampledBuffer) {
+        addStatus?.(`Trimmed silence: ${resampledBuffer.length} -> ${speechBuffer.length} samples`);
+      }
+
       // Create WAV file
-      const wavBlob = await convertToWav(resampledBuffer);
+      const wavBlob = await convertToWav(speechBuffer);
       addStatus?.(`Converted to WAV: ${wavBlob.size} bytes`);
 
-      // Get Azure credentials from environment variables
-      const subscriptionKey = import.meta.env.VITE_AZURE_SPEECH_KEY;
-      const region = import.meta.env.VITE_AZURE_SPEECH_REGION;
-
-      if (!subscriptionKey || !region) {
-        throw new Error('Azure Speech credentials not configured');
+      // Hand the WAV off to whichever recognition engine is configured
+      addStatus?.(`Sending audio to ${provider.name} provider`);
+      if (provider.kind !== 'audio') {
+        throw new Error(`${provider.name} provider does not accept recorded audio`);
       }
-
-      // Call Azure Speech to Text API
-      const speechContext = expectedWords.length > 0 
-        ? `&speechcontext={"phrases":${JSON.stringify(expectedWords)}}`
-        : '';
-      
-      const response = await fetch(
-        `https://${region}.stt.speech.microsoft.com/speech/recognition/conversation/cognitiveservices/v1?language=en-US&format=detailed${speechContext}`,
+      const recognize = (signal?: AbortSignal) => provider.recognize(
+        wavBlob,
+        expectedWordsRef.current,
+        addStatus,
         {
-          method: 'POST',
-          headers: {
-            'Ocp-Apim-Subscription-Key': subscriptionKey,
-            'Content-Type': 'audio/wav; codecs=audio/pcm; samplerate=16000',
-            'Accept': 'application/json',
-            'X-Requested-With': 'XMLHttpRequest'
-          },
-          body: wavBlob
+          referenceText: expectedWordsRef.current.join(' '),
+          assessPronunciation: assessPronunciationRef.current,
+          signal
         }
       );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        addStatus?.(`Azure API error: ${response.status} ${response.statusText}`);
-        addStatus?.(`Error details: ${errorText}`);
-        throw new Error(`Azure API error: ${response.statusText}. Details: ${errorText}`);
-      }
-
-      const result = await response.json();
-      addStatus?.("Received response from Azure");
-      addStatus?.(`Recognition status: ${result.RecognitionStatus}`);
-      addStatus?.(`Full response: ${JSON.stringify(result, null, 2)}`);
-
-      if (result.RecognitionStatus === 'Success') {
-        const transcript = result.DisplayText;
-        const alternatives = result.NBest?.map((item: any) => ({
-          transcript: item.Display,
-          confidence: item.Confidence
-        })) || [];
-
-        onResult(transcript, alternatives);
-        addStatus?.("Successfully processed speech");
-      } else {
-        throw new Error(`Recognition failed: ${result.RecognitionStatus}`);
-      }
+      let retried = false;
+      // On-device engines (offline, mock) have no service to be slow or to retry against,
+      // and a first model load can take longer than any request timeout
+      const { transcript, alternatives, pronunciation } = provider.remote
+        ? await withRetry(
+            recognize,
+            retryPolicyRef.current,
+            (error, attempt, delayMs) => {
+              retried = true;
+              setDegraded(true);
+              addStatus?.(`Recognition request failed (${error.message}), retry ${attempt} in ${delayMs}ms`);
+            }
+          )
+        : await recognize();
+      setDegraded(retried);
+
+      onResultRef.current(transcript, alternatives, { pronunciation, audio: wavBlob });
+      addStatus?.("Successfully processed speech");
     } catch (error) {
       console.error('Error processing audio:', error);
-      setErrorMessage('Error processing speech. Please try again.');
+      setErrorMessage(getRecognitionErrorMessage(error));
+      setDegraded(error instanceof RecognitionError && error.retryable);
       addStatus?.(`Error processing audio: ${error.message}`);
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const convertToWav = async (audioBuffer: AudioBuffer): Promise<Blob> => {
-    const numChannels = 1;
-    const sampleRate = 16000;
-    const format = 1; // PCM
-    const bitDepth = 16;
-
-    const bytesPerSample = bitDepth / 8;
-    const blockAlign = numChannels * bytesPerSample;
-    const byteRate = sampleRate * blockAlign;
-    const dataSize = audioBuffer.length * blockAlign;
-    const buffer = new ArrayBuffer(44 + dataSize);
-    const view = new DataView(buffer);
-
-    // RIFF identifier
-    writeString(view, 0, 'RIFF');
-    // RIFF chunk length
-    view.setUint32(4, 36 + dataSize, true);
-    // RIFF type
-    writeString(view, 8, 'WAVE');
-    // format chunk identifier
-    writeString(view, 12, 'fmt ');
-    // format chunk length
-    view.setUint32(16, 16, true);
-    // sample format (raw)
-    view.setUint16(20, format, true);
-    // channel count
-    view.setUint16(22, numChannels, true);
-    // sample rate
-    view.setUint32(24, sampleRate, true);
-    // byte rate (sample rate * block align)
-    view.setUint32(28, byteRate, true);
-    // block align (channel count * bytes per sample)
-    view.setUint16(32, blockAlign, true);
-    // bits per sample
-    view.setUint16(34, bitDepth, true);
-    // data chunk identifier
-    writeString(view, 36, 'data');
-    // data chunk length
-    view.setUint32(40, dataSize, true);
-
-    // Write the PCM samples
-    const offset = 44;
-    const channelData = audioBuffer.getChannelData(0);
-    for (let i = 0; i < channelData.length; i++) {
-      const sample = Math.max(-1, Math.min(1, channelData[i]));
-      const value = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
-      view.setInt16(offset + i * 2, value, true);
+  // Throw away the current recording without sending it to the recognizer
+  const discardRecording = useCallback(() => {
+    if (liveSessionRef.current) {
+      liveSessionRef.current.abort();
     }
-
-    return new Blob([buffer], { type: 'audio/wav' });
-  };
-
-  const writeString = (view: DataView, offset: number, string: string) => {
-    for (let i = 0; i < string.length; i++) {
-      view.setUint8(offset + i, string.charCodeAt(i));
+    streamingRef.current?.abort();
+    if (mediaRecorderRef.current?.state === 'recording') {
+      discardRecordingRef.current = true;
+      mediaRecorderRef.current.stop();
     }
-  };
-
-  const resampleAudio = async (audioBuffer: AudioBuffer, targetSampleRate: number): Promise<AudioBuffer> => {
-    const offlineContext = new OfflineAudioContext(
-      audioBuffer.numberOfChannels,
-      Math.round(audioBuffer.length * targetSampleRate / audioBuffer.sampleRate),
-      targetSampleRate
-    );
-
-    const source = offlineContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(offlineContext.destination);
-    source.start();
-
-    return await offlineContext.startRendering();
-  };
+    setIsListening(false);
+  }, [setIsListening]);
+
+  // Hands-free mode: pause while the tab is hidden or loses focus, resume when it's back
+  useEffect(() => {
+    if (!continuous) return;
+
+    const pause = () => {
+      addStatus?.("Tab hidden, pausing hands-free listening");
+      discardRecording();
+      setPauseReason('hidden');
+    };
+    const resume = () => {
+      setPauseReason(prev => (prev === 'hidden' ? null : prev));
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        pause();
+      } else {
+        resume();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', pause);
+    window.addEventListener('focus', resume);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', pause);
+      window.removeEventListener('focus', resume);
+    };
+  }, [continuous, discardRecording, addStatus]);
+
+  // Hands-free mode: re-arm for the next attempt as soon as the previous one is done
+  const startRecordingRef = useRef(startRecording);
+  startRecordingRef.current = startRecording;
+  useEffect(() => {
+    if (!continuous || pauseReason || isListening || isProcessing) return;
+
+    const timer = setTimeout(() => startRecordingRef.current(), REARM_DELAY);
+    return () => clearTimeout(timer);
+  }, [continuous, pauseReason, isListening, isProcessing]);
 
   const toggleRecording = useCallback(() => {
-    if (isListening) {
+    if (pauseReason) {
+      // Tapping the mic resumes hands-free listening
+      silentPromptsRef.current = 0;
+      setPauseReason(null);
+      setErrorMessage('');
+    } else if (isListening) {
       stopRecording();
     } else {
       startRecording();
     }
-  }, [isListening, startRecording, stopRecording]);
+  }, [pauseReason, isListening, startRecording, stopRecording]);
 
   return (
     <div className="flex flex-col items-center gap-2">
-      <Button
-        onClick={toggleRecording}
-        disabled={isProcessing}
-        className={`w-16 h-16 rounded-full ${getMicrophoneButtonClass()}`}
-      >
-        {isListening ? <MicOff className="w-6 h-6" /> : <Mic className="w-6 h-6" />}
-      </Button>
+      <MicLevelMeter level={inputLevel} active={isListening} clipping={levelWarning === 'loud'}>
+        <Button
+          onClick={toggleRecording}
+          disabled={isProcessing}
+          className={`w-16 h-16 rounded-full ${getMicrophoneButtonClass()}`}
+        >
+          {isListening ? <MicOff className="w-6 h-6" /> : <Mic className="w-6 h-6" />}
+        </Button>
+      </MicLevelMeter>
+      {continuous && (
+        <p className="text-gray-500 text-sm">
+          {pauseReason
+            ? 'Hands-free paused. Tap the microphone to keep going.'
+            : isListening ? 'Listening...' : 'Get ready...'}
+        </p>
+      )}
+      {levelWarning === 'loud' && (
+        <p className="text-orange-500 text-sm">Too loud! Try moving back from the microphone a little.</p>
+      )}
+      {levelWarning === 'quiet' && (
+        <p className="text-orange-500 text-sm">We couldn't hear you. Try speaking a bit louder or closer to the microphone.</p>
+      )}
+      {degraded && (
+        <p className="text-amber-600 text-sm flex items-center gap-1">
+          <WifiOff className="w-4 h-4" />
+          Speech service is slow right now, answers may take longer.
+        </p>
+      )}
       {errorMessage && (
         <p className="text-red-500 text-sm mt-2">{errorMessage}</p>
       )}
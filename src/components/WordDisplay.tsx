@@ -1,23 +1,39 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import type { WordResult } from '@/lib/matching/align';
 
 interface WordDisplayProps {
   word: string;
+  // Per-word outcome of the last attempt at a phrase or sentence, to highlight
+  results?: WordResult[];
 }
 
-const WordDisplay: React.FC<WordDisplayProps> = ({ word }) => {
+const WordDisplay: React.FC<WordDisplayProps> = ({ word, results }) => {
+  const isPhrase = word.trim().includes(' ');
+
   return (
-    <div className="flex justify-center items-center my-8 h-32">
+    <div className="flex justify-center items-center my-8 min-h-32">
       <AnimatePresence mode="wait">
         <motion.h2
           key={word}
-          className="text-7xl md:text-8xl font-bold text-blue-600"
+          className={`font-bold text-blue-600 text-center ${
+            isPhrase ? 'text-5xl md:text-6xl' : 'text-7xl md:text-8xl'
+          }`}
           initial={{ scale: 0.5, opacity: 0 }}
           animate={{ scale: 1, opacity: 1 }}
           exit={{ scale: 0.5, opacity: 0 }}
           transition={{ duration: 0.2 }}
         >
-          {word}
+          {results
+            ? results.map((result, index) => (
+                <React.Fragment key={index}>
+                  {index > 0 && ' '}
+                  <span className={result.correct ? 'text-green-600' : 'text-red-500 underline decoration-wavy'}>
+                    {result.word}
+                  </span>
+                </React.Fragment>
+              ))
+            : word}
         </motion.h2>
       </AnimatePresence>
     </div>
@@ -1,111 +1,50 @@
-// Define the structure for homonym groups
-export interface HomonymGroup {
-  words: string[];
-}
-
-// Define the homonym groups
-export const HOMONYM_GROUPS: HomonymGroup[] = [
-  {
-    words: ['to', 'two', 'too', '2']
-  },
-  {
-    words: ['there', 'their', 'they\'re']
-  },
-  {
-    words: ['your', 'you\'re']
-  },
-  {
-    words: ['know', 'no']
-  },
-  {
-    words: ['one', 'won', '1']
-  },
-  {
-    words: ['buy', 'by', 'bye']
-  },
-  {
-    words: ['which', 'witch']
-  },
-  {
-    words: ['four', 'for', 'fore']
-  },
-  {
-    words: ['were', 'we\'re']
-  },
-  {
-    words: ['an', 'ann', 'anne']
-  },
-  {
-    words: ['with', 'wiz']  // Special case for Azure Speech recognition
-  },
-  {
-    words: ['he', 'hey']    // Special case for Azure Speech recognition
-  },
-  {
-    words: ['b', 'be']      // Special case for Azure Speech recognition
-  }
-];
-
-// Create a map for quick lookup
-export const HOMOPHONE_MAP: Record<string, string> = HOMONYM_GROUPS.reduce((acc, group) => {
-  // For each word in the group, map it to the first word in the group
-  const baseWord = group.words[0];
-  group.words.forEach(word => {
-    acc[word] = baseWord;
+import homophoneSets from './homophones.json';
+import recognizerAliases from './recognizerAliases.json';
+
+// homophones.json: sets of English words that are pronounced the same ("to", "two", "too").
+// A word can be in more than one set when it has several pronunciations ("read").
+//
+// recognizerAliases.json: NOT homophones. Maps a word the child says to what speech
+// recognizers are known to write for it instead (Azure writes "with" as "wiz"), so those
+// answers are accepted without pretending the spellings are interchangeable.
+
+const HOMOPHONE_SETS: string[][] = homophoneSets;
+// A Map, so looking up text like "constructor" can't hit Object.prototype
+const RECOGNIZER_ALIASES = new Map<string, string[]>(Object.entries(recognizerAliases));
+
+const normalize = (word: string) => word.toLowerCase().trim();
+
+// Word -> indexes of the homophone sets containing it, built once at load
+const homophoneIndex = new Map<string, number[]>();
+HOMOPHONE_SETS.forEach((set, index) => {
+  set.forEach(word => {
+    const key = normalize(word);
+    homophoneIndex.set(key, [...(homophoneIndex.get(key) ?? []), index]);
   });
-  return acc;
-}, {} as Record<string, string>);
+});
 
-// Helper function to check if two words are homonyms
+// Check whether two words are spelled the same or are homophones
 export function areHomonyms(word1: string, word2: string): boolean {
-  // Normalize both words
-  const normalizeWord = (word: string) => {
-    const normalized = word.toLowerCase().replace(/[.,!?]/g, '').trim();
-    console.log(`Normalizing word in homonyms check: "${word}" -> "${normalized}"`);
-    return normalized;
-  };
-  
-  const normalizedWord1 = normalizeWord(word1);
-  const normalizedWord2 = normalizeWord(word2);
-  
-  console.log('Homonyms check:', {
-    original: { word1, word2 },
-    normalized: { word1: normalizedWord1, word2: normalizedWord2 }
-  });
-
-  // If words are identical after normalization, they are a match
+  const normalizedWord1 = normalize(word1);
+  const normalizedWord2 = normalize(word2);
   if (normalizedWord1 === normalizedWord2) {
-    console.log('Words are identical after normalization');
     return true;
   }
 
-  // Check if either word is in the homonyms map
-  const word1Homonyms = HOMONYM_GROUPS.find(group => 
-    group.words.some(w => normalizeWord(w) === normalizedWord1)
-  );
-  const word2Homonyms = HOMONYM_GROUPS.find(group => 
-    group.words.some(w => normalizeWord(w) === normalizedWord2)
-  );
-
-  console.log('Homonym groups found:', {
-    word1Group: word1Homonyms,
-    word2Group: word2Homonyms
-  });
-
-  // If either word has homonyms, check if they're in the same group
-  if (word1Homonyms && word2Homonyms) {
-    const areInSameGroup = word1Homonyms.words.some(w => normalizeWord(w) === normalizedWord2);
-    console.log('Words are in same homonym group:', areInSameGroup);
-    return areInSameGroup;
-  }
-
-  console.log('No matching homonym groups found');
-  return false;
+  const sets2 = homophoneIndex.get(normalizedWord2);
+  return Boolean(sets2 && homophoneIndex.get(normalizedWord1)?.some(index => sets2.includes(index)));
 }
 
-// Helper function to get all homonyms for a word
+// All homophones of a word, excluding the word itself
 export function getHomonyms(word: string): string[] {
-  const normalizedWord = word.toLowerCase();
-  const group = HOMONYM_GROUPS.find(group => group.words.includes(normalizedWord));
-  return group ? group.words.filter(w => w !== normalizedWord) : [];
-} 
\ No newline at end of file
+  const normalizedWord = normalize(word);
+  const homonyms = (homophoneIndex.get(normalizedWord) ?? [])
+    .flatMap(index => HOMOPHONE_SETS[index])
+    .filter(w => w !== normalizedWord);
+  return Array.from(new Set(homonyms));
+}
+
+// Whether a recognizer is known to write `heard` when `target` is said
+export function isRecognizerAlias(heard: string, target: string): boolean {
+  return RECOGNIZER_ALIASES.get(normalize(target))?.includes(normalize(heard)) ?? false;
+}
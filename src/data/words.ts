@@ -1,57 +1,65 @@
 export interface Word {
+  // A single word, a phrase ("thank you") or a short sentence
   text: string;
   difficulty: 'easy' | 'medium' | 'hard';
   category?: string;
+  // ARPAbet pronunciation without stress markers, e.g. 'DH AH' for "the". Single words
+  // only; words in phrases are looked up in the pronunciation lexicon.
   phonetic?: string;
 }
 
 export const words: Word[] = [
-  { text: 'the', difficulty: 'easy' },
-  { text: 'and', difficulty: 'easy' },
-  { text: 'to', difficulty: 'easy' },
-  { text: 'in', difficulty: 'easy' },
-  { text: 'is', difficulty: 'easy' },
-  { text: 'you', difficulty: 'easy' },
-  { text: 'that', difficulty: 'easy' },
-  { text: 'it', difficulty: 'easy' },
-  { text: 'he', difficulty: 'easy' },
-  { text: 'was', difficulty: 'easy' },
-  { text: 'for', difficulty: 'easy' },
-  { text: 'on', difficulty: 'easy' },
-  { text: 'are', difficulty: 'easy' },
-  { text: 'as', difficulty: 'easy' },
-  { text: 'with', difficulty: 'easy' },
-  { text: 'his', difficulty: 'easy' },
-  { text: 'they', difficulty: 'easy' },
-  { text: 'at', difficulty: 'easy' },
-  { text: 'be', difficulty: 'easy' },
-  { text: 'this', difficulty: 'easy' },
-  { text: 'have', difficulty: 'medium' },
-  { text: 'from', difficulty: 'medium' },
-  { text: 'or', difficulty: 'medium' },
-  { text: 'one', difficulty: 'medium' },
-  { text: 'had', difficulty: 'medium' },
-  { text: 'by', difficulty: 'medium' },
-  { text: 'word', difficulty: 'medium' },
-  { text: 'but', difficulty: 'medium' },
-  { text: 'not', difficulty: 'medium' },
-  { text: 'what', difficulty: 'medium' },
-  { text: 'all', difficulty: 'medium' },
-  { text: 'were', difficulty: 'medium' },
-  { text: 'we', difficulty: 'medium' },
-  { text: 'when', difficulty: 'medium' },
-  { text: 'your', difficulty: 'medium' },
-  { text: 'can', difficulty: 'medium' },
-  { text: 'said', difficulty: 'medium' },
-  { text: 'there', difficulty: 'medium' },
-  { text: 'use', difficulty: 'medium' },
-  { text: 'an', difficulty: 'medium' },
-  { text: 'each', difficulty: 'hard' },
-  { text: 'which', difficulty: 'hard' },
-  { text: 'she', difficulty: 'hard' },
-  { text: 'do', difficulty: 'hard' },
-  { text: 'how', difficulty: 'hard' },
-  { text: 'their', difficulty: 'hard' },
-  { text: 'if', difficulty: 'hard' },
-  { text: 'will', difficulty: 'hard' }
+  { text: 'the', difficulty: 'easy', phonetic: 'DH AH' },
+  { text: 'and', difficulty: 'easy', phonetic: 'AE N D' },
+  { text: 'to', difficulty: 'easy', phonetic: 'T UW' },
+  { text: 'in', difficulty: 'easy', phonetic: 'IH N' },
+  { text: 'is', difficulty: 'easy', phonetic: 'IH Z' },
+  { text: 'you', difficulty: 'easy', phonetic: 'Y UW' },
+  { text: 'that', difficulty: 'easy', phonetic: 'DH AE T' },
+  { text: 'it', difficulty: 'easy', phonetic: 'IH T' },
+  { text: 'he', difficulty: 'easy', phonetic: 'HH IY' },
+  { text: 'was', difficulty: 'easy', phonetic: 'W AA Z' },
+  { text: 'for', difficulty: 'easy', phonetic: 'F AO R' },
+  { text: 'on', difficulty: 'easy', phonetic: 'AA N' },
+  { text: 'are', difficulty: 'easy', phonetic: 'AA R' },
+  { text: 'as', difficulty: 'easy', phonetic: 'AE Z' },
+  { text: 'with', difficulty: 'easy', phonetic: 'W IH DH' },
+  { text: 'his', difficulty: 'easy', phonetic: 'HH IH Z' },
+  { text: 'they', difficulty: 'easy', phonetic: 'DH EY' },
+  { text: 'at', difficulty: 'easy', phonetic: 'AE T' },
+  { text: 'be', difficulty: 'easy', phonetic: 'B IY' },
+  { text: 'this', difficulty: 'easy', phonetic: 'DH IH S' },
+  { text: 'have', difficulty: 'medium', phonetic: 'HH AE V' },
+  { text: 'from', difficulty: 'medium', phonetic: 'F R AH M' },
+  { text: 'or', difficulty: 'medium', phonetic: 'AO R' },
+  { text: 'one', difficulty: 'medium', phonetic: 'W AH N' },
+  { text: 'had', difficulty: 'medium', phonetic: 'HH AE D' },
+  { text: 'by', difficulty: 'medium', phonetic: 'B AY' },
+  { text: 'word', difficulty: 'medium', phonetic: 'W ER D' },
+  { text: 'but', difficulty: 'medium', phonetic: 'B AH T' },
+  { text: 'not', difficulty: 'medium', phonetic: 'N AA T' },
+  { text: 'what', difficulty: 'medium', phonetic: 'W AH T' },
+  { text: 'all', difficulty: 'medium', phonetic: 'AO L' },
+  { text: 'were', difficulty: 'medium', phonetic: 'W ER' },
+  { text: 'we', difficulty: 'medium', phonetic: 'W IY' },
+  { text: 'when', difficulty: 'medium', phonetic: 'W EH N' },
+  { text: 'your', difficulty: 'medium', phonetic: 'Y AO R' },
+  { text: 'can', difficulty: 'medium', phonetic: 'K AE N' },
+  { text: 'said', difficulty: 'medium', phonetic: 'S EH D' },
+  { text: 'there', difficulty: 'medium', phonetic: 'DH EH R' },
+  { text: 'use', difficulty: 'medium', phonetic: 'Y UW Z' },
+  { text: 'an', difficulty: 'medium', phonetic: 'AE N' },
+  { text: 'each', difficulty: 'hard', phonetic: 'IY CH' },
+  { text: 'which', difficulty: 'hard', phonetic: 'W IH CH' },
+  { text: 'she', difficulty: 'hard', phonetic: 'SH IY' },
+  { text: 'do', difficulty: 'hard', phonetic: 'D UW' },
+  { text: 'how', difficulty: 'hard', phonetic: 'HH AW' },
+  { text: 'their', difficulty: 'hard', phonetic: 'DH EH R' },
+  { text: 'if', difficulty: 'hard', phonetic: 'IH F' },
+  { text: 'will', difficulty: 'hard', phonetic: 'W IH L' },
+  { text: 'thank you', difficulty: 'medium', category: 'phrase' },
+  { text: 'look at me', difficulty: 'medium', category: 'phrase' },
+  { text: 'once upon a time', difficulty: 'hard', category: 'phrase' },
+  { text: 'I can see the cat.', difficulty: 'hard', category: 'sentence' },
+  { text: 'We like to play.', difficulty: 'hard', category: 'sentence' }
 ]; 
\ No newline at end of file
@@ -0,0 +1,21 @@
+import * as React from "react"
+
+import {
+  AudioInputSettings,
+  loadAudioSettings,
+  saveAudioSettings,
+} from "@/lib/audioSettings"
+
+export function useAudioSettings() {
+  const [settings, setSettings] = React.useState<AudioInputSettings>(loadAudioSettings)
+
+  const updateSettings = React.useCallback((changes: Partial<AudioInputSettings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...changes }
+      saveAudioSettings(next)
+      return next
+    })
+  }, [])
+
+  return { settings, updateSettings }
+}
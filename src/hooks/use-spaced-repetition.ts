@@ -0,0 +1,25 @@
+import * as React from "react"
+
+import { GameConfig } from "@/lib/game/config"
+import { loadDeck, reviewWord, saveDeck, SrsDeck } from "@/lib/game/srs"
+import { GameLogEntry } from "@/lib/game/types"
+
+export function useSpacedRepetition(learner: string) {
+  const [deck, setDeck] = React.useState<SrsDeck>(() => loadDeck(learner))
+
+  React.useEffect(() => {
+    setDeck(loadDeck(learner))
+  }, [learner])
+
+  const recordAttempt = React.useCallback((entry: GameLogEntry, config: GameConfig) => {
+    setDeck((prev) => {
+      const next = reviewWord(prev, entry, config)
+      if (next !== prev) {
+        saveDeck(learner, next)
+      }
+      return next
+    })
+  }, [learner])
+
+  return { deck, recordAttempt }
+}
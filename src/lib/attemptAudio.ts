@@ -0,0 +1,124 @@
+// Keeps the WAV recorded for each attempt so it can be replayed next to the result.
+// Recordings always live in memory for the current session and can optionally be
+// persisted to IndexedDB so they survive a reload; persisted ones are listed, played and
+// deleted from the start screen, see SavedRecordings.tsx.
+
+const DB_NAME = 'guessy-wordy';
+const DB_VERSION = 1;
+const STORE_NAME = 'attempt-audio';
+// Oldest persisted recordings are dropped beyond this many
+const MAX_PERSISTED_RECORDINGS = 200;
+
+// What the recording is of, so it can be listed without the game log
+export interface RecordingDetails {
+  word: string;
+  transcript: string;
+}
+
+interface StoredRecording extends Partial<RecordingDetails> {
+  id: string;
+  blob: Blob;
+  createdAt: number;
+}
+
+export interface SavedRecording extends Partial<RecordingDetails> {
+  id: string;
+  createdAt: number;
+}
+
+const memoryStore = new Map<string, Blob>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const persistRecording = async (recording: StoredRecording) => {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await requestToPromise(store.put(recording));
+
+  const count = await requestToPromise(store.count());
+  if (count > MAX_PERSISTED_RECORDINGS) {
+    const oldestKeys = await requestToPromise(
+      store.index('createdAt').getAllKeys(null, count - MAX_PERSISTED_RECORDINGS)
+    );
+    await Promise.all(oldestKeys.map(key => requestToPromise(store.delete(key))));
+  }
+};
+
+// Keep a recording for this session and return the id to keep on the GameLogEntry
+export function storeAttemptAudio(blob: Blob): string {
+  const id = crypto.randomUUID();
+  memoryStore.set(id, blob);
+  return id;
+}
+
+// Save a session recording on the device. Called once the game has logged the attempt,
+// so answers the game ignored never end up in the saved list.
+export function persistAttemptAudio(id: string, details: RecordingDetails): void {
+  const blob = memoryStore.get(id);
+  if (!blob) return;
+
+  persistRecording({ id, blob, createdAt: Date.now(), ...details }).catch(error => {
+    console.warn('Could not save attempt audio:', error);
+  });
+}
+
+export async function getAttemptAudio(id: string): Promise<Blob | undefined> {
+  const inMemory = memoryStore.get(id);
+  if (inMemory) {
+    return inMemory;
+  }
+
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const recording = await requestToPromise<StoredRecording | undefined>(store.get(id));
+    return recording?.blob;
+  } catch (error) {
+    console.warn('Could not load attempt audio:', error);
+    return undefined;
+  }
+}
+
+// Free the in-memory recordings, e.g. when a new game starts; persisted copies are kept
+export function clearSessionAudio(): void {
+  memoryStore.clear();
+}
+
+// Recordings saved on this device, newest first
+export async function listSavedRecordings(): Promise<SavedRecording[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const recordings = await requestToPromise<StoredRecording[]>(store.getAll());
+  return recordings
+    .map(({ id, createdAt, word, transcript }) => ({ id, createdAt, word, transcript }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function deleteSavedRecordings(): Promise<void> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await requestToPromise(store.clear());
+}
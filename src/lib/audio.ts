@@ -0,0 +1,159 @@
+export async function convertToWav(audioBuffer: AudioBuffer): Promise<Blob> {
+  const numChannels = 1;
+  const sampleRate = 16000;
+  const format = 1; // PCM
+  const bitDepth = 16;
+
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numChannels * bytesPerSample;
+  const byteRate = sampleRate * blockAlign;
+  const dataSize = audioBuffer.length * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  // RIFF identifier
+  writeString(view, 0, 'RIFF');
+  // RIFF chunk length
+  view.setUint32(4, 36 + dataSize, true);
+  // RIFF type
+  writeString(view, 8, 'WAVE');
+  // format chunk identifier
+  writeString(view, 12, 'fmt ');
+  // format chunk length
+  view.setUint32(16, 16, true);
+  // sample format (raw)
+  view.setUint16(20, format, true);
+  // channel count
+  view.setUint16(22, numChannels, true);
+  // sample rate
+  view.setUint32(24, sampleRate, true);
+  // byte rate (sample rate * block align)
+  view.setUint32(28, byteRate, true);
+  // block align (channel count * bytes per sample)
+  view.setUint16(32, blockAlign, true);
+  // bits per sample
+  view.setUint16(34, bitDepth, true);
+  // data chunk identifier
+  writeString(view, 36, 'data');
+  // data chunk length
+  view.setUint32(40, dataSize, true);
+
+  // Write the PCM samples
+  const offset = 44;
+  const channelData = audioBuffer.getChannelData(0);
+  for (let i = 0; i < channelData.length; i++) {
+    const sample = Math.max(-1, Math.min(1, channelData[i]));
+    const value = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
+    view.setInt16(offset + i * 2, value, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+function writeString(view: DataView, offset: number, string: string) {
+  for (let i = 0; i < string.length; i++) {
+    view.setUint8(offset + i, string.charCodeAt(i));
+  }
+}
+
+export async function resampleAudio(audioBuffer: AudioBuffer, targetSampleRate: number): Promise<AudioBuffer> {
+  const offlineContext = new OfflineAudioContext(
+    audioBuffer.numberOfChannels,
+    Math.round(audioBuffer.length * targetSampleRate / audioBuffer.sampleRate),
+    targetSampleRate
+  );
+
+  const source = offlineContext.createBufferSource();
+  source.buffer = audioBuffer;
+  source.connect(offlineContext.destination);
+  source.start();
+
+  return await offlineContext.startRendering();
+}
+
+export interface WavSamples {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+// Read the mono 16-bit PCM WAV produced by convertToWav back into float samples
+export async function readWavSamples(wavBlob: Blob): Promise<WavSamples> {
+  const view = new DataView(await wavBlob.arrayBuffer());
+  const sampleRate = view.getUint32(24, true);
+  const dataSize = view.getUint32(40, true);
+  const offset = 44;
+
+  const samples = new Float32Array(dataSize / 2);
+  for (let i = 0; i < samples.length; i++) {
+    const value = view.getInt16(offset + i * 2, true);
+    samples[i] = value < 0 ? value / 0x8000 : value / 0x7FFF;
+  }
+
+  return { samples, sampleRate };
+}
+
+// Root-mean-square level of a range of float samples
+export function rms(samples: Float32Array, start = 0, end = samples.length): number {
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return end > start ? Math.sqrt(sum / (end - start)) : 0;
+}
+
+// Largest absolute sample value, 1 meaning full scale
+export function peak(samples: Float32Array): number {
+  let max = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.abs(samples[i]);
+    if (value > max) max = value;
+  }
+  return max;
+}
+
+// Samples this close to full scale are treated as clipped
+export const CLIPPING_LEVEL = 0.99;
+// A recording whose loudest sample stays below this is effectively silent
+export const QUIET_PEAK_LEVEL = 0.03;
+
+// Map an RMS level onto 0–1 for display, on a -60dB..0dB scale so quiet speech still registers
+export function toMeterLevel(rmsLevel: number): number {
+  if (rmsLevel <= 0) return 0;
+  const decibels = 20 * Math.log10(rmsLevel);
+  return Math.min(1, Math.max(0, (decibels + 60) / 60));
+}
+
+// Drop leading and trailing audio quieter than the threshold, keeping some padding so
+// soft word onsets and endings aren't clipped. Returns the input if nothing is loud enough.
+export function trimSilence(audioBuffer: AudioBuffer, threshold: number, paddingMs: number): AudioBuffer {
+  const channelData = audioBuffer.getChannelData(0);
+  const frameSize = Math.max(1, Math.round(audioBuffer.sampleRate / 100)); // 10ms frames
+  const padding = Math.round(audioBuffer.sampleRate * paddingMs / 1000);
+
+  let first = -1;
+  let last = -1;
+  for (let start = 0; start < channelData.length; start += frameSize) {
+    const end = Math.min(start + frameSize, channelData.length);
+    if (rms(channelData, start, end) >= threshold) {
+      if (first < 0) first = start;
+      last = end;
+    }
+  }
+
+  if (first < 0) {
+    return audioBuffer;
+  }
+
+  const trimStart = Math.max(0, first - padding);
+  const trimEnd = Math.min(channelData.length, last + padding);
+  const trimmed = new AudioBuffer({
+    length: trimEnd - trimStart,
+    numberOfChannels: audioBuffer.numberOfChannels,
+    sampleRate: audioBuffer.sampleRate
+  });
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    trimmed.copyToChannel(audioBuffer.getChannelData(channel).subarray(trimStart, trimEnd), channel);
+  }
+
+  return trimmed;
+}
@@ -0,0 +1,53 @@
+import { loadJson, saveJson } from './storage';
+
+export interface AudioInputSettings {
+  // null means the browser's default input
+  deviceId: string | null;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioInputSettings = {
+  deviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true
+};
+
+const STORAGE_KEY = 'audio-settings';
+
+export function loadAudioSettings(): AudioInputSettings {
+  return { ...DEFAULT_AUDIO_SETTINGS, ...loadJson<Partial<AudioInputSettings>>(STORAGE_KEY, {}) };
+}
+
+export function saveAudioSettings(settings: AudioInputSettings): void {
+  saveJson(STORAGE_KEY, settings);
+}
+
+// getUserMedia audio constraints for the chosen input and processing options
+export function buildAudioConstraints(settings: AudioInputSettings): MediaTrackConstraints {
+  return {
+    ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : {}),
+    channelCount: 1,
+    sampleRate: 16000, // Set to 16kHz directly
+    sampleSize: 16,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl
+  };
+}
+
+// List the available microphones. Labels are only filled in once the page has been
+// granted microphone access, so ask for it briefly if they are missing.
+export async function listAudioInputs(): Promise<MediaDeviceInfo[]> {
+  let inputs = (await navigator.mediaDevices.enumerateDevices()).filter(d => d.kind === 'audioinput');
+
+  if (inputs.length > 0 && inputs.every(d => !d.label)) {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    stream.getTracks().forEach(track => track.stop());
+    inputs = (await navigator.mediaDevices.enumerateDevices()).filter(d => d.kind === 'audioinput');
+  }
+
+  return inputs;
+}
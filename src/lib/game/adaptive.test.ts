@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { Word } from '@/data/words';
+import { DIFFICULTIES } from './config';
+import { AdaptiveResult, AdaptiveState, pickWordIndex, startAdaptive, updateAdaptive } from './adaptive';
+
+const play = (results: AdaptiveResult[], start: AdaptiveState = startAdaptive(DIFFICULTIES)) =>
+  results.reduce((state, result) => updateAdaptive(state, DIFFICULTIES, result), start);
+
+const atLevel = (level: AdaptiveState['level']): AdaptiveState => ({ level, correctRun: 0, missRun: 0 });
+
+describe('adaptive difficulty', () => {
+  it('starts at the easiest level the rules allow', () => {
+    expect(startAdaptive(DIFFICULTIES).level).toBe('easy');
+    expect(startAdaptive(['hard', 'medium']).level).toBe('medium');
+  });
+
+  it('moves up after three words read right first time in a row', () => {
+    expect(play(['firstTry', 'firstTry']).level).toBe('easy');
+    expect(play(['firstTry', 'firstTry', 'firstTry'])).toEqual(atLevel('medium'));
+  });
+
+  it('needs the three in a row', () => {
+    expect(play(['firstTry', 'firstTry', 'correct', 'firstTry']).level).toBe('easy');
+    expect(play(['firstTry', 'firstTry', 'miss', 'firstTry']).level).toBe('easy');
+  });
+
+  it('moves down after two misses in a row', () => {
+    expect(play(['miss'], atLevel('hard')).level).toBe('hard');
+    expect(play(['miss', 'miss'], atLevel('hard'))).toEqual(atLevel('medium'));
+    expect(play(['miss', 'firstTry', 'miss'], atLevel('hard')).level).toBe('hard');
+  });
+
+  it('ignores words that count for neither', () => {
+    expect(play(['firstTry', 'firstTry', 'none', 'firstTry']).level).toBe('medium');
+  });
+
+  it('stays within the levels the rules allow', () => {
+    expect(play(['miss', 'miss']).level).toBe('easy');
+    expect(play(['firstTry', 'firstTry', 'firstTry'], atLevel('hard')).level).toBe('hard');
+    const levels = ['easy' as const, 'hard' as const];
+    expect(updateAdaptive({ level: 'easy', correctRun: 2, missRun: 0 }, levels, 'firstTry').level).toBe('hard');
+  });
+});
+
+describe('pickWordIndex', () => {
+  const word = (text: string, difficulty: Word['difficulty']): Word => ({ text, difficulty });
+  const WORDS = [word('the', 'easy'), word('said', 'medium'), word('because', 'hard'), word('and', 'easy')];
+
+  it('picks the next word at the current level', () => {
+    expect(pickWordIndex(WORDS, 0, 'medium')).toBe(1);
+    expect(pickWordIndex(WORDS, 1, 'easy')).toBe(3);
+  });
+
+  it('falls back to the closest level, easier first', () => {
+    expect(pickWordIndex(WORDS, 2, 'medium')).toBe(3);
+    expect(pickWordIndex([word('because', 'hard')], 0, 'easy')).toBe(0);
+  });
+
+  it('returns -1 when no words are left', () => {
+    expect(pickWordIndex(WORDS, 4, 'easy')).toBe(-1);
+  });
+});
@@ -0,0 +1,74 @@
+import type { Word } from '@/data/words';
+import { Difficulty, DIFFICULTIES } from './config';
+
+// Adaptive difficulty: start at the easiest level, move up after a run of words read
+// right first time and step back down after a run of misses.
+
+export const ADAPTIVE_RULES = {
+  // Words read correctly on the first try, in a row, to move up a level
+  promoteAfter: 3,
+  // Missed words in a row to move down a level
+  demoteAfter: 2
+};
+
+export interface AdaptiveState {
+  level: Difficulty;
+  correctRun: number;
+  missRun: number;
+}
+
+// How a finished word counts towards the level
+export type AdaptiveResult = 'firstTry' | 'correct' | 'miss' | 'none';
+
+// The levels the game can use, easiest first
+const orderLevels = (levels: Difficulty[]) => DIFFICULTIES.filter(level => levels.includes(level));
+
+export function startAdaptive(levels: Difficulty[]): AdaptiveState {
+  return { level: orderLevels(levels)[0] ?? DIFFICULTIES[0], correctRun: 0, missRun: 0 };
+}
+
+export function updateAdaptive(state: AdaptiveState, levels: Difficulty[], result: AdaptiveResult): AdaptiveState {
+  const ordered = orderLevels(levels);
+  const position = ordered.indexOf(state.level);
+
+  switch (result) {
+    case 'firstTry': {
+      const correctRun = state.correctRun + 1;
+      if (correctRun >= ADAPTIVE_RULES.promoteAfter && position < ordered.length - 1) {
+        return { level: ordered[position + 1], correctRun: 0, missRun: 0 };
+      }
+      return { ...state, correctRun, missRun: 0 };
+    }
+    case 'correct':
+      // Got there on a later try: not a miss, but not a reason to move up either
+      return { ...state, correctRun: 0, missRun: 0 };
+    case 'miss': {
+      const missRun = state.missRun + 1;
+      if (missRun >= ADAPTIVE_RULES.demoteAfter && position > 0) {
+        return { level: ordered[position - 1], correctRun: 0, missRun: 0 };
+      }
+      return { ...state, correctRun: 0, missRun };
+    }
+    default:
+      return state;
+  }
+}
+
+// Index of the next word to play from words[from..]: the first one at the current level,
+// or failing that the first at the closest level, preferring the easier one
+export function pickWordIndex(words: Word[], from: number, level: Difficulty): number {
+  const target = DIFFICULTIES.indexOf(level);
+  let best = -1;
+  let bestDistance = Infinity;
+  for (let i = from; i < words.length; i++) {
+    const offset = DIFFICULTIES.indexOf(words[i].difficulty) - target;
+    // Easier words win ties by counting as slightly closer
+    const distance = Math.abs(offset) - (offset < 0 ? 0.5 : 0);
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+      if (offset === 0) break;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,81 @@
+import type { Word } from '@/data/words';
+import type { GameLogEntry } from './types';
+
+export type Difficulty = Word['difficulty'];
+// Words without a category are plain single words
+export type WordCategory = 'word' | 'phrase' | 'sentence';
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+export const WORD_CATEGORIES: WordCategory[] = ['word', 'phrase', 'sentence'];
+
+// The rules of one game, chosen on the start screen
+export interface GameConfig {
+  // Wrong answers allowed per word before moving on
+  maxAttempts: number;
+  // Words to play; 0 plays every word that matches the filters below
+  sessionLength: number;
+  difficulties: Difficulty[];
+  categories: WordCategory[];
+  // When false a skipped word isn't held against the child and another word takes its place
+  skipsCountAsMisses: boolean;
+  // Start at the easiest level and move up or down with the child, see adaptive.ts
+  adaptive: boolean;
+}
+
+export type GamePreset = 'quick' | 'full';
+
+export const GAME_PRESETS: Record<GamePreset, { label: string; config: GameConfig }> = {
+  quick: {
+    label: 'Quick 10',
+    config: {
+      maxAttempts: 2,
+      sessionLength: 10,
+      difficulties: DIFFICULTIES,
+      categories: WORD_CATEGORIES,
+      skipsCountAsMisses: false,
+      adaptive: true
+    }
+  },
+  full: {
+    label: 'Full list',
+    config: {
+      maxAttempts: 2,
+      sessionLength: 0,
+      difficulties: DIFFICULTIES,
+      categories: WORD_CATEGORIES,
+      skipsCountAsMisses: true,
+      adaptive: false
+    }
+  }
+};
+
+export const DEFAULT_GAME_PRESET: GamePreset = 'full';
+
+export const getWordCategory = (word: Word): WordCategory =>
+  word.category === 'phrase' || word.category === 'sentence' ? word.category : 'word';
+
+// The words a game with these rules can draw from, in list order
+export function selectWords(pool: Word[], config: GameConfig): Word[] {
+  return pool.filter(word =>
+    config.difficulties.includes(word.difficulty) && config.categories.includes(getWordCategory(word))
+  );
+}
+
+// The preset these rules came from, or null once they've been customised
+export function findPreset(config: GameConfig): GamePreset | null {
+  const sameItems = <T>(a: T[], b: T[]) => a.length === b.length && a.every(item => b.includes(item));
+  const match = (Object.keys(GAME_PRESETS) as GamePreset[]).find(preset => {
+    const presetConfig = GAME_PRESETS[preset].config;
+    return presetConfig.maxAttempts === config.maxAttempts
+      && presetConfig.sessionLength === config.sessionLength
+      && presetConfig.skipsCountAsMisses === config.skipsCountAsMisses
+      && presetConfig.adaptive === config.adaptive
+      && sameItems(presetConfig.difficulties, config.difficulties)
+      && sameItems(presetConfig.categories, config.categories);
+  });
+  return match ?? null;
+}
+
+// Whether a logged attempt counts against the child under these rules
+export const countsAsMiss = (entry: GameLogEntry, config: GameConfig): boolean =>
+  !entry.isCorrect && (!entry.skipped || config.skipsCountAsMisses);
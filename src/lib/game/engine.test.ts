@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { Word } from '@/data/words';
+import { GameConfig, GAME_PRESETS } from './config';
+import { GameEvent, gameReducer, GameState, getCurrentWord, initialGameState } from './engine';
+
+const WORDS: Word[] = [
+  { text: 'the', difficulty: 'easy', phonetic: 'DH AH' },
+  { text: 'and', difficulty: 'easy', phonetic: 'AE N D' },
+  { text: 'was', difficulty: 'easy', phonetic: 'W AA Z' }
+];
+
+const play = (events: GameEvent[], config: GameConfig = GAME_PRESETS.full.config): GameState =>
+  events.reduce(gameReducer, gameReducer(initialGameState, { type: 'start', words: WORDS, config }));
+
+const answer = (transcript: string): GameEvent => ({ type: 'answer', transcript, alternatives: [], timestamp: 0 });
+const listen: GameEvent = { type: 'listeningStarted' };
+const next: GameEvent = { type: 'next' };
+const skip: GameEvent = { type: 'skip', timestamp: 0 };
+
+describe('gameReducer', () => {
+  it('moves on to the next word after a correct answer', () => {
+    const state = play([listen, answer('the')]);
+    expect(state.phase).toBe('feedback');
+    expect(state.feedback?.outcome).toBe('correct');
+
+    const after = gameReducer(state, next);
+    expect(after.phase).toBe('prompting');
+    expect(getCurrentWord(after)?.text).toBe('and');
+    expect(after.completed).toBe(1);
+  });
+
+  it('gives another try after a wrong answer', () => {
+    const state = play([listen, answer('dog')]);
+    expect(state.feedback?.outcome).toBe('retry');
+    expect(state.log).toHaveLength(1);
+
+    const after = gameReducer(state, next);
+    expect(after.phase).toBe('prompting');
+    expect(getCurrentWord(after)?.text).toBe('the');
+    expect(after.attempts).toBe(1);
+  });
+
+  it('moves on once the tries are used up', () => {
+    const state = play([listen, answer('dog'), next, listen, answer('cat')]);
+    expect(state.feedback?.outcome).toBe('missed');
+    expect(state.log.map(entry => entry.attemptNumber)).toEqual([1, 2]);
+
+    const after = gameReducer(state, next);
+    expect(getCurrentWord(after)?.text).toBe('and');
+    expect(after.attempts).toBe(0);
+  });
+
+  it('follows the configured number of tries', () => {
+    const state = play([listen, answer('dog')], { ...GAME_PRESETS.full.config, maxAttempts: 1 });
+    expect(state.feedback?.outcome).toBe('missed');
+  });
+
+  it('ignores a duplicate answer', () => {
+    const state = play([listen, answer('dog'), answer('dog')]);
+    expect(state.log).toHaveLength(1);
+    expect(state.attempts).toBe(1);
+  });
+
+  it('ignores a late answer for the previous word', () => {
+    const state = play([listen, answer('the'), next, answer('the')]);
+    expect(state.phase).toBe('prompting');
+    expect(state.log).toHaveLength(1);
+  });
+
+  it('accepts an answer delivered while processing after listening stopped', () => {
+    const state = play([listen, { type: 'listeningStopped' }, { type: 'processingStarted' }, answer('the')]);
+    expect(state.feedback?.outcome).toBe('correct');
+    expect(state.log).toHaveLength(1);
+  });
+
+  it('counts a skip towards the session when skips count as misses', () => {
+    const state = play([skip, next], { ...GAME_PRESETS.full.config, sessionLength: 2 });
+    expect(state.log[0]).toMatchObject({ word: 'the', skipped: true, isCorrect: false });
+    expect(state.completed).toBe(1);
+  });
+
+  it('replaces an excused skip with another word', () => {
+    const config = { ...GAME_PRESETS.full.config, sessionLength: 2, skipsCountAsMisses: false };
+    const state = play([skip, next, listen, answer('and'), next], config);
+    expect(state.completed).toBe(1);
+    expect(state.phase).toBe('prompting');
+    expect(getCurrentWord(state)?.text).toBe('was');
+
+    const over = play([skip, next, listen, answer('and'), next, listen, answer('was'), next], config);
+    expect(over.phase).toBe('over');
+    expect(over.log).toHaveLength(3);
+  });
+
+  it('ends after the last word', () => {
+    const state = play([listen, answer('the'), next, listen, answer('and'), next, listen, answer('was'), next]);
+    expect(state.phase).toBe('over');
+  });
+});
@@ -0,0 +1,249 @@
+import type { Word } from '@/data/words';
+import type { PronunciationAssessment, RecognitionAlternative } from '@/lib/recognition';
+import type { WordResult } from '@/lib/matching/align';
+import { evaluateAnswer, AnswerVerdict, EvaluateAnswerOptions } from '@/lib/matching/evaluateAnswer';
+import { AdaptiveResult, AdaptiveState, pickWordIndex, startAdaptive, updateAdaptive } from './adaptive';
+import { GameConfig, GAME_PRESETS, DEFAULT_GAME_PRESET } from './config';
+import { GameLogEntry } from './types';
+
+// The game as a pure state machine, independent of React:
+//
+//   idle -> prompting -> listening -> evaluating -> feedback -> prompting (retry or next word)
+//                                                            -> over
+//
+// Every change comes in as a typed event and events that don't fit the current phase are
+// ignored, so a recognizer reporting the same answer twice can't count it twice.
+
+export type GamePhase = 'idle' | 'prompting' | 'listening' | 'evaluating' | 'feedback' | 'over';
+
+export type AttemptOutcome = 'correct' | 'retry' | 'missed' | 'skipped';
+
+export interface GameFeedback {
+  outcome: AttemptOutcome;
+  word: Word;
+  // Missing for skipped words
+  verdict?: AnswerVerdict;
+  // Skipped while recording: the recording carries on and counts for the next word
+  stillListening?: boolean;
+}
+
+export interface GameState {
+  phase: GamePhase;
+  // Words to draw from, in play order; skipped words can be replaced by later ones
+  words: Word[];
+  currentIndex: number;
+  // Words finished so far that count towards the session length
+  completed: number;
+  // Wrong answers so far for the current word
+  attempts: number;
+  log: GameLogEntry[];
+  // Set while in the feedback phase
+  feedback: GameFeedback | null;
+  // Which words of a phrase or sentence were read correctly on the last attempt
+  wordResults: WordResult[] | null;
+  config: GameConfig;
+  // Seed the word order was shuffled with, shown as the session code
+  seed: number | null;
+  // Current level and runs, for adaptive games
+  adaptive: AdaptiveState | null;
+  evaluation: EvaluateAnswerOptions;
+}
+
+export type GameEvent =
+  | { type: 'start'; words: Word[]; config?: GameConfig; seed?: number; evaluation?: EvaluateAnswerOptions }
+  | { type: 'listeningStarted' }
+  | { type: 'listeningStopped' }
+  | { type: 'processingStarted' }
+  | { type: 'processingFinished' }
+  | {
+      type: 'answer';
+      transcript: string;
+      alternatives: RecognitionAlternative[];
+      timestamp: number;
+      pronunciation?: PronunciationAssessment;
+      audioId?: string;
+    }
+  | { type: 'skip'; timestamp: number }
+  // Leave the feedback phase: try the word again, or go on to the next one
+  | { type: 'next' };
+
+// Dispatching the same start event again replays the session word for word
+export type GameStartEvent = Extract<GameEvent, { type: 'start' }>;
+
+export const initialGameState: GameState = {
+  phase: 'idle',
+  words: [],
+  currentIndex: 0,
+  completed: 0,
+  attempts: 0,
+  log: [],
+  feedback: null,
+  wordResults: null,
+  config: GAME_PRESETS[DEFAULT_GAME_PRESET].config,
+  seed: null,
+  adaptive: null,
+  evaluation: {}
+};
+
+export const getCurrentWord = (state: GameState): Word | undefined => state.words[state.currentIndex];
+
+export const isGameActive = (state: GameState): boolean => state.phase !== 'idle' && state.phase !== 'over';
+
+// Answers only count while the recognizer is working on the current word
+export const acceptsAnswer = (state: GameState): boolean =>
+  state.phase === 'listening' || state.phase === 'evaluating';
+
+// Number of words the session ends after
+export const getSessionLength = (state: GameState): number =>
+  state.config.sessionLength > 0 ? Math.min(state.config.sessionLength, state.words.length) : state.words.length;
+
+export const getProgress = (state: GameState): number => {
+  const sessionLength = getSessionLength(state);
+  return sessionLength > 0 ? (state.completed / sessionLength) * 100 : 0;
+};
+
+const answer = (state: GameState, event: Extract<GameEvent, { type: 'answer' }>): GameState => {
+  const word = getCurrentWord(state);
+  if (!word || !acceptsAnswer(state)) return state;
+
+  const verdict = evaluateAnswer(word, event.transcript, event.alternatives, state.evaluation);
+  const isPhrase = verdict.words.length > 1;
+  const attemptNumber = state.attempts + 1;
+  const entry: GameLogEntry = {
+    word: word.text,
+    userAnswer: event.transcript,
+    isCorrect: verdict.isCorrect,
+    timestamp: event.timestamp,
+    difficulty: word.difficulty,
+    attemptNumber,
+    possibilities: verdict.possibilities,
+    pronunciation: event.pronunciation,
+    audioId: event.audioId,
+    level: state.adaptive?.level,
+    ...(isPhrase ? { score: verdict.score, wordResults: verdict.words } : {})
+  };
+
+  const outcome: AttemptOutcome = verdict.isCorrect
+    ? 'correct'
+    : attemptNumber >= state.config.maxAttempts ? 'missed' : 'retry';
+
+  return {
+    ...state,
+    phase: 'feedback',
+    attempts: verdict.isCorrect ? state.attempts : attemptNumber,
+    log: [...state.log, entry],
+    feedback: { outcome, word, verdict },
+    wordResults: isPhrase ? verdict.words : state.wordResults
+  };
+};
+
+const skip = (state: GameState, event: Extract<GameEvent, { type: 'skip' }>): GameState => {
+  const word = getCurrentWord(state);
+  if (!word || (state.phase !== 'prompting' && state.phase !== 'listening')) return state;
+
+  const entry: GameLogEntry = {
+    word: word.text,
+    userAnswer: 'SKIPPED',
+    isCorrect: false,
+    timestamp: event.timestamp,
+    difficulty: word.difficulty,
+    attemptNumber: state.attempts + 1,
+    skipped: true,
+    level: state.adaptive?.level,
+    possibilities: []
+  };
+
+  return {
+    ...state,
+    phase: 'feedback',
+    log: [...state.log, entry],
+    feedback: { outcome: 'skipped', word, stillListening: state.phase === 'listening' }
+  };
+};
+
+// Adaptive games: bring the best word for the current level forward to be played next
+const placeNextWord = (words: Word[], index: number, adaptive: AdaptiveState | null): Word[] => {
+  if (!adaptive) return words;
+  const pick = pickWordIndex(words, index, adaptive.level);
+  if (pick <= index) return words;
+  const reordered = [...words];
+  [reordered[index], reordered[pick]] = [reordered[pick], reordered[index]];
+  return reordered;
+};
+
+const adaptiveResult = (state: GameState, outcome: AttemptOutcome): AdaptiveResult => {
+  switch (outcome) {
+    case 'correct':
+      return state.attempts === 0 ? 'firstTry' : 'correct';
+    case 'missed':
+      return 'miss';
+    case 'skipped':
+      return state.config.skipsCountAsMisses ? 'miss' : 'none';
+    default:
+      return 'none';
+  }
+};
+
+const next = (state: GameState): GameState => {
+  if (state.phase !== 'feedback' || !state.feedback) return state;
+
+  if (state.feedback.outcome === 'retry') {
+    return { ...state, phase: 'prompting', feedback: null };
+  }
+
+  // A skip the rules excuse doesn't use up a place in the session
+  const excused = state.feedback.outcome === 'skipped' && !state.config.skipsCountAsMisses;
+  const completed = excused ? state.completed : state.completed + 1;
+  const nextIndex = state.currentIndex + 1;
+  const finished = completed >= getSessionLength(state) || nextIndex >= state.words.length;
+  const nextPhase: GamePhase = state.feedback.stillListening ? 'listening' : 'prompting';
+  const adaptive = state.adaptive &&
+    updateAdaptive(state.adaptive, state.config.difficulties, adaptiveResult(state, state.feedback.outcome));
+  return {
+    ...state,
+    phase: finished ? 'over' : nextPhase,
+    words: finished ? state.words : placeNextWord(state.words, nextIndex, adaptive),
+    currentIndex: nextIndex,
+    completed,
+    adaptive,
+    attempts: 0,
+    feedback: null,
+    wordResults: null
+  };
+};
+
+export function gameReducer(state: GameState, event: GameEvent): GameState {
+  switch (event.type) {
+    case 'start': {
+      const config = event.config ?? initialGameState.config;
+      const adaptive = config.adaptive ? startAdaptive(config.difficulties) : null;
+      return {
+        ...initialGameState,
+        phase: event.words.length > 0 ? 'prompting' : 'over',
+        words: placeNextWord(event.words, 0, adaptive),
+        config,
+        seed: event.seed ?? null,
+        adaptive,
+        evaluation: event.evaluation ?? {}
+      };
+    }
+    case 'listeningStarted':
+      return state.phase === 'prompting' ? { ...state, phase: 'listening' } : state;
+    case 'listeningStopped':
+      return state.phase === 'listening' ? { ...state, phase: 'prompting' } : state;
+    case 'processingStarted':
+      return state.phase === 'prompting' || state.phase === 'listening'
+        ? { ...state, phase: 'evaluating' }
+        : state;
+    case 'processingFinished':
+      return state.phase === 'evaluating' ? { ...state, phase: 'prompting' } : state;
+    case 'answer':
+      return answer(state, event);
+    case 'skip':
+      return skip(state, event);
+    case 'next':
+      return next(state);
+    default:
+      return state;
+  }
+}
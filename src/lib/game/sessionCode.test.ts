@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { GAME_PRESETS } from './config';
+import { formatSessionCode, parseSessionCode } from './sessionCode';
+
+describe('session codes', () => {
+  it('carries the seed and rules', () => {
+    const config = { ...GAME_PRESETS.full.config, maxAttempts: 3, sessionLength: 20, difficulties: ['easy' as const] };
+    const code = formatSessionCode(482913, config);
+    expect(code).toMatch(/^482913-[0-9A-Z]+$/);
+    expect(parseSessionCode(code)).toEqual({ seed: 482913, config });
+  });
+
+  it('turns adaptive reordering off', () => {
+    const code = formatSessionCode(12, GAME_PRESETS.quick.config);
+    expect(parseSessionCode(code)?.config).toEqual({ ...GAME_PRESETS.quick.config, adaptive: false });
+  });
+
+  it('reads codes typed in lower case with spaces around them', () => {
+    const code = formatSessionCode(7, GAME_PRESETS.full.config);
+    expect(parseSessionCode(` ${code.toLowerCase()} `)).toEqual({ seed: 7, config: GAME_PRESETS.full.config });
+  });
+
+  it.each(['', '482913', 'abc-AN', '1000000-AN', '5-0', '5-!'])('rejects "%s"', text => {
+    expect(parseSessionCode(text)).toBeNull();
+  });
+});
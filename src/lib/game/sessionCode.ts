@@ -0,0 +1,53 @@
+import { DIFFICULTIES, GameConfig, WORD_CATEGORIES } from './config';
+import { MAX_SEED } from './shuffle';
+
+// A session code is the shuffle seed plus the rules that pick and end the word list,
+// e.g. "482913-AN". Typing it in plays the same words in the same order on any device.
+// Adaptive games reorder words as the child answers, so sessions started from a code
+// always play in the shuffled order.
+
+export interface SessionCode {
+  seed: number;
+  config: GameConfig;
+}
+
+const MAX_ATTEMPTS = 3;
+
+const toMask = <T>(all: T[], chosen: T[]) =>
+  all.reduce((mask, item, bit) => (chosen.includes(item) ? mask | (1 << bit) : mask), 0);
+
+const fromMask = <T>(all: T[], mask: number) => all.filter((_, bit) => (mask & (1 << bit)) !== 0);
+
+export function formatSessionCode(seed: number, config: GameConfig): string {
+  // Packed as: session length, tries, skip rule, category bits, difficulty bits
+  const rules = ((config.sessionLength * (MAX_ATTEMPTS + 1) + config.maxAttempts) * 2
+    + (config.skipsCountAsMisses ? 1 : 0)) * 64
+    + toMask(WORD_CATEGORIES, config.categories) * 8
+    + toMask(DIFFICULTIES, config.difficulties);
+  return `${seed}-${rules.toString(36).toUpperCase()}`;
+}
+
+// Codes typed in by hand; null if it isn't one
+export function parseSessionCode(text: string): SessionCode | null {
+  const match = /^(\d+)-([0-9a-z]+)$/i.exec(text.trim());
+  if (!match) return null;
+
+  const seed = Number(match[1]);
+  let rules = parseInt(match[2], 36);
+  if (seed >= MAX_SEED || !Number.isSafeInteger(rules)) return null;
+
+  const difficulties = fromMask(DIFFICULTIES, rules % 8);
+  rules = Math.floor(rules / 8);
+  const categories = fromMask(WORD_CATEGORIES, rules % 8);
+  rules = Math.floor(rules / 8);
+  const skipsCountAsMisses = rules % 2 === 1;
+  rules = Math.floor(rules / 2);
+  const maxAttempts = rules % (MAX_ATTEMPTS + 1);
+  const sessionLength = Math.floor(rules / (MAX_ATTEMPTS + 1));
+  if (difficulties.length === 0 || categories.length === 0 || maxAttempts === 0) return null;
+
+  return {
+    seed,
+    config: { maxAttempts, sessionLength, difficulties, categories, skipsCountAsMisses, adaptive: false }
+  };
+}
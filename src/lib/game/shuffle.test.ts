@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { seededRandom, shuffle } from './shuffle';
+
+const ITEMS = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+
+describe('seededRandom', () => {
+  it('gives the same numbers for the same seed', () => {
+    const first = seededRandom(42);
+    const second = seededRandom(42);
+    const numbers = Array.from({ length: 5 }, () => first());
+    expect(Array.from({ length: 5 }, () => second())).toEqual(numbers);
+    expect(numbers.every(n => n >= 0 && n < 1)).toBe(true);
+  });
+
+  it('gives different numbers for different seeds', () => {
+    expect(seededRandom(1)()).not.toBe(seededRandom(2)());
+  });
+});
+
+describe('shuffle', () => {
+  it('gives the same order for the same seed', () => {
+    expect(shuffle(ITEMS, 482913)).toEqual(shuffle(ITEMS, 482913));
+    expect(shuffle(ITEMS, 482913)).not.toEqual(shuffle(ITEMS, 482914));
+  });
+
+  it('keeps every item and leaves the input alone', () => {
+    const input = [...ITEMS];
+    expect([...shuffle(input, 7)].sort()).toEqual(ITEMS);
+    expect(input).toEqual(ITEMS);
+  });
+
+  it('puts every item in every position about equally often', () => {
+    const runs = 8000;
+    const counts = ITEMS.map(() => ITEMS.map(() => 0));
+    for (let seed = 0; seed < runs; seed++) {
+      shuffle(ITEMS, seed).forEach((item, position) => counts[ITEMS.indexOf(item)][position]++);
+    }
+    const expected = runs / ITEMS.length;
+    for (const row of counts) {
+      for (const count of row) {
+        expect(Math.abs(count - expected)).toBeLessThan(expected * 0.15);
+      }
+    }
+  });
+
+  it('gives every order of three items about equally often', () => {
+    const runs = 6000;
+    const orders = new Map<string, number>();
+    for (let seed = 0; seed < runs; seed++) {
+      const order = shuffle(['a', 'b', 'c'], seed).join('');
+      orders.set(order, (orders.get(order) ?? 0) + 1);
+    }
+    expect(orders.size).toBe(6);
+    for (const count of orders.values()) {
+      expect(Math.abs(count - runs / 6)).toBeLessThan(runs / 6 * 0.1);
+    }
+  });
+});
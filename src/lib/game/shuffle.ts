@@ -0,0 +1,32 @@
+// Seeded shuffling, so the same seed always gives the same word order: a teacher can give
+// the whole class one session code, and a bug report's session can be played again.
+
+// Seeds are kept short enough to read out or type in
+export const MAX_SEED = 1000000;
+
+export function createSeed(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0] % MAX_SEED;
+}
+
+// mulberry32: a small, fast PRNG returning floats in [0, 1)
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Unbiased Fisher–Yates shuffle, returning a new array
+export function shuffle<T>(items: T[], seed: number): T[] {
+  const random = seededRandom(seed);
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { Word } from '@/data/words';
+import { GAME_PRESETS } from './config';
+import { getDueWords, MAX_BOX, reviewWord, SrsDeck } from './srs';
+import type { GameLogEntry } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 5);
+const CONFIG = GAME_PRESETS.full.config;
+
+const entry = (changes: Partial<GameLogEntry>): GameLogEntry => ({
+  word: 'said',
+  userAnswer: 'said',
+  isCorrect: true,
+  timestamp: NOW,
+  difficulty: 'medium',
+  attemptNumber: 1,
+  possibilities: [],
+  ...changes
+});
+
+const card = (box: number, due = NOW) => ({ box, due, lastReviewed: NOW - DAY_MS });
+
+describe('reviewWord', () => {
+  it('moves a new word read right first time two boxes up', () => {
+    expect(reviewWord({}, entry({}), CONFIG).said).toEqual({ box: 3, due: NOW + 3 * DAY_MS, lastReviewed: NOW });
+  });
+
+  it('moves a word read right on a later try one box up', () => {
+    expect(reviewWord({}, entry({ attemptNumber: 2 }), CONFIG).said).toMatchObject({ box: 2, due: NOW + DAY_MS });
+  });
+
+  it('keeps promoted words in the last box', () => {
+    const deck = reviewWord({ said: card(MAX_BOX - 1) }, entry({}), CONFIG);
+    expect(deck.said).toMatchObject({ box: MAX_BOX, due: NOW + 16 * DAY_MS });
+  });
+
+  it('sends a missed word back to box 1, due straight away', () => {
+    const deck = reviewWord({ said: card(4) }, entry({ isCorrect: false, userAnswer: 'sad' }), CONFIG);
+    expect(deck.said).toEqual({ box: 1, due: NOW, lastReviewed: NOW });
+  });
+
+  it('only holds a skip against the word when the rules count skips', () => {
+    const deck: SrsDeck = { said: card(4) };
+    const skipped = entry({ isCorrect: false, skipped: true, userAnswer: 'SKIPPED' });
+    expect(reviewWord(deck, skipped, { ...CONFIG, skipsCountAsMisses: false })).toBe(deck);
+    expect(reviewWord(deck, skipped, { ...CONFIG, skipsCountAsMisses: true }).said.box).toBe(1);
+  });
+});
+
+describe('getDueWords', () => {
+  const word = (text: string): Word => ({ text, difficulty: 'easy' });
+  const POOL = ['the', 'and', 'to', 'in', 'is'].map(word);
+
+  it('returns played words that are due, lowest box first and then most overdue', () => {
+    const deck: SrsDeck = {
+      the: card(3, NOW - DAY_MS),
+      and: card(1, NOW - DAY_MS),
+      to: card(1, NOW - 2 * DAY_MS),
+      in: card(2, NOW + DAY_MS)
+    };
+    expect(getDueWords(deck, POOL, NOW).map(w => w.text)).toEqual(['to', 'and', 'the']);
+  });
+
+  it('leaves out words outside the pool', () => {
+    expect(getDueWords({ said: card(1) }, POOL, NOW)).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+import type { Word } from '@/data/words';
+import { loadJson, saveJson } from '@/lib/storage';
+import { countsAsMiss, GameConfig } from './config';
+import type { GameLogEntry } from './types';
+
+// Spaced repetition with Leitner boxes. Every word the learner has played sits in a box;
+// reading it correctly moves it up (two boxes when it was read right first time) and a
+// miss sends it back to box 1. Higher boxes come back after longer gaps.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days until a word in each box is due again; box 1 is due straight away
+const BOX_INTERVALS_DAYS = [0, 0, 1, 3, 7, 16];
+export const MAX_BOX = BOX_INTERVALS_DAYS.length - 1;
+
+export interface SrsCard {
+  box: number;
+  // When the word should next be practised, ms since epoch
+  due: number;
+  lastReviewed: number;
+}
+
+// Cards by word text, for one learner
+export type SrsDeck = Record<string, SrsCard>;
+
+const DEFAULT_LEARNER = 'default';
+const LEARNER_KEY = 'learner';
+
+const deckKey = (learner: string) => `srs:${learner.trim().toLowerCase() || DEFAULT_LEARNER}`;
+
+export function loadDeck(learner: string): SrsDeck {
+  return loadJson<SrsDeck>(deckKey(learner), {});
+}
+
+export function saveDeck(learner: string, deck: SrsDeck): void {
+  saveJson(deckKey(learner), deck);
+}
+
+// Name of whoever played last on this device
+export function loadLearner(): string {
+  return loadJson<string>(LEARNER_KEY, '');
+}
+
+export function saveLearner(learner: string): void {
+  saveJson(LEARNER_KEY, learner);
+}
+
+// Update a word's card from one logged attempt
+export function reviewWord(deck: SrsDeck, entry: GameLogEntry, config: GameConfig, now = entry.timestamp): SrsDeck {
+  const card = deck[entry.word];
+  let box: number;
+  if (entry.isCorrect) {
+    // New words start from box 1, so one read right first time lands further out
+    box = Math.min(MAX_BOX, (card?.box ?? 1) + (entry.attemptNumber === 1 ? 2 : 1));
+  } else if (countsAsMiss(entry, config)) {
+    box = 1;
+  } else {
+    return deck;
+  }
+
+  return {
+    ...deck,
+    [entry.word]: { box, due: now + BOX_INTERVALS_DAYS[box] * DAY_MS, lastReviewed: now }
+  };
+}
+
+// Words from the pool that are due, lowest box first and then the most overdue
+export function getDueWords(deck: SrsDeck, pool: Word[], now = Date.now()): Word[] {
+  return pool
+    .filter(word => deck[word.text] && deck[word.text].due <= now)
+    .sort((a, b) => deck[a.text].box - deck[b.text].box || deck[a.text].due - deck[b.text].due);
+}
@@ -0,0 +1,27 @@
+import type { PronunciationAssessment } from '@/lib/recognition';
+import type { WordResult } from '@/lib/matching/align';
+import type { Difficulty } from './config';
+
+export interface GameLogEntry {
+  word: string;
+  userAnswer: string;
+  isCorrect: boolean;
+  timestamp: number;
+  difficulty: string;
+  attemptNumber: number;
+  // The child pressed Skip instead of answering
+  skipped?: boolean;
+  // Adaptive games: the level the child was playing at when the word was shown
+  level?: Difficulty;
+  possibilities: Array<{
+    word: string;
+    confidence: number;
+  }>;
+  // Per-phoneme scores, when pronunciation assessment was requested
+  pronunciation?: PronunciationAssessment;
+  // Key of the recorded attempt audio, see lib/attemptAudio.ts
+  audioId?: string;
+  // Phrase and sentence targets: fraction of words read correctly, and which ones
+  score?: number;
+  wordResults?: WordResult[];
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { alignWords } from './align';
+
+const SENTENCE = ['i', 'can', 'see', 'the', 'cat'];
+
+const correctness = (heard: string[], target = SENTENCE) =>
+  alignWords(target, heard).words.map(result => result.correct);
+
+describe('alignWords', () => {
+  it('matches every word read in order', () => {
+    const alignment = alignWords(SENTENCE, SENTENCE);
+    expect(alignment.matchedCount).toBe(5);
+    expect(alignment.words.every(result => result.correct)).toBe(true);
+    expect(alignment.extraWords).toEqual([]);
+  });
+
+  it('marks a skipped word without losing the rest of the sentence', () => {
+    expect(correctness(['i', 'can', 'the', 'cat'])).toEqual([true, true, false, true, true]);
+  });
+
+  it('marks a misread word', () => {
+    const alignment = alignWords(SENTENCE, ['i', 'can', 'see', 'the', 'dog']);
+    expect(alignment.matchedCount).toBe(4);
+    expect(alignment.words[4]).toEqual({ word: 'cat', correct: false });
+    expect(alignment.extraWords).toEqual(['dog']);
+  });
+
+  it('sets aside fillers and repeated words', () => {
+    const alignment = alignWords(SENTENCE, ['um', 'i', 'can', 'can', 'see', 'the', 'cat']);
+    expect(alignment.matchedCount).toBe(5);
+    expect(alignment.extraWords).toEqual(['um', 'can']);
+  });
+
+  it('only credits words heard in order', () => {
+    const alignment = alignWords(['look', 'at', 'me'], ['me', 'look', 'at']);
+    expect(alignment.words.map(result => result.correct)).toEqual([true, true, false]);
+    expect(alignment.extraWords).toEqual(['me']);
+  });
+
+  it('accepts homophones of target words', () => {
+    const alignment = alignWords(['we', 'like', 'too', 'play'], ['we', 'like', 'to', 'play']);
+    expect(alignment.matchedCount).toBe(4);
+    expect(alignment.words[2]).toMatchObject({ heard: 'to', match: { rule: 'homophone' } });
+  });
+
+  it('marks every word when nothing was heard', () => {
+    expect(correctness([])).toEqual([false, false, false, false, false]);
+  });
+});
@@ -0,0 +1,62 @@
+import { matchWord, WordMatch, WordMatchOptions } from './fuzzy';
+
+// Outcome for one word of a phrase or sentence target
+export interface WordResult {
+  word: string;
+  correct: boolean;
+  // The heard word it was aligned with, if any
+  heard?: string;
+  match?: WordMatch;
+}
+
+export interface Alignment {
+  words: WordResult[];
+  matchedCount: number;
+  // Heard words that didn't line up with any target word ("um", repeated words)
+  extraWords: string[];
+}
+
+// Align heard tokens against target tokens, in order, maximising the number of target
+// words that were read correctly. Works like a longest common subsequence where two
+// words are "equal" if matchWord accepts them, so a skipped or extra word doesn't throw
+// off the rest of the sentence.
+export function alignWords(
+  target: string[],
+  heard: string[],
+  options: Omit<WordMatchOptions, 'targetPhonetic'> = {}
+): Alignment {
+  const matches = target.map(targetWord => heard.map(heardWord => matchWord(heardWord, targetWord, options)));
+
+  // best[i][j]: most target words matched using target[i..] and heard[j..]
+  const best = Array.from({ length: target.length + 1 }, () => new Array<number>(heard.length + 1).fill(0));
+  for (let i = target.length - 1; i >= 0; i--) {
+    for (let j = heard.length - 1; j >= 0; j--) {
+      best[i][j] = Math.max(
+        best[i + 1][j],
+        best[i][j + 1],
+        matches[i][j].matched ? best[i + 1][j + 1] + 1 : 0
+      );
+    }
+  }
+
+  const words: WordResult[] = [];
+  const extraWords: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < target.length) {
+    if (j < heard.length && matches[i][j].matched && best[i][j] === best[i + 1][j + 1] + 1) {
+      words.push({ word: target[i], correct: true, heard: heard[j], match: matches[i][j] });
+      i++;
+      j++;
+    } else if (j < heard.length && best[i][j] === best[i][j + 1]) {
+      extraWords.push(heard[j]);
+      j++;
+    } else {
+      words.push({ word: target[i], correct: false });
+      i++;
+    }
+  }
+  extraWords.push(...heard.slice(j));
+
+  return { words, matchedCount: best[0][0], extraWords };
+}
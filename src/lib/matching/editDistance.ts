@@ -0,0 +1,21 @@
+// Levenshtein distance between two sequences: letters of a word, or phonemes.
+// substitutionCost lets similar elements count as less than a full edit.
+export function editDistance<T>(
+  a: ArrayLike<T>,
+  b: ArrayLike<T>,
+  substitutionCost: (x: T, y: T) => number = (x, y) => (x === y ? 0 : 1)
+): number {
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + substitutionCost(a[i - 1], b[j - 1]);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { words, Word } from '@/data/words';
+import { evaluateAnswer } from './evaluateAnswer';
+import { ACCEPTANCE_PRESETS } from './policy';
+
+const target = (text: string): Word => {
+  const word = words.find(w => w.text === text);
+  if (!word) throw new Error(`"${text}" is not in the word list`);
+  return word;
+};
+
+const accepts = (text: string, transcript: string, mode: keyof typeof ACCEPTANCE_PRESETS = 'practice') =>
+  evaluateAnswer(target(text), transcript, [], { policy: ACCEPTANCE_PRESETS[mode] }).isCorrect;
+
+describe('evaluateAnswer', () => {
+  describe('homophones', () => {
+    it.each(['to', 'two', 'too', '2'])('accepts "%s" for "to"', heard => {
+      expect(accepts('to', heard)).toBe(true);
+    });
+
+    it.each(['there', 'their', "they're"])('accepts "%s" for "there" and "their"', heard => {
+      expect(accepts('there', heard)).toBe(true);
+      expect(accepts('their', heard)).toBe(true);
+    });
+
+    it.each(['one', 'won', '1'])('accepts "%s" for "one"', heard => {
+      expect(accepts('one', heard)).toBe(true);
+    });
+
+    it('accepts the letter "b" for "be"', () => {
+      expect(accepts('be', 'b')).toBe(true);
+      expect(accepts('be', 'B.')).toBe(true);
+    });
+  });
+
+  describe('recognizer aliases', () => {
+    it('accepts "wiz" for "with"', () => {
+      expect(accepts('with', 'wiz')).toBe(true);
+    });
+
+    it('accepts "hey" for "he"', () => {
+      expect(accepts('he', 'hey')).toBe(true);
+    });
+  });
+
+  describe('punctuation', () => {
+    it.each(['The.', 'the!', 'THE?', 'the,', '"the"', '“the”', '‘the’'])('accepts "%s" for "the"', heard => {
+      expect(accepts('the', heard)).toBe(true);
+    });
+
+    it('finds the word among others', () => {
+      expect(accepts('the', 'um, the.')).toBe(true);
+    });
+
+    it('reads curly apostrophes as contractions', () => {
+      expect(accepts('there', 'they’re')).toBe(true);
+    });
+
+    it('splits words joined by dashes', () => {
+      expect(accepts('the', 'the—the')).toBe(true);
+      expect(accepts('the', 'um—the')).toBe(true);
+      expect(accepts('the', 'um—the', 'assessment')).toBe(false);
+    });
+  });
+
+  it('accepts a word heard only in an alternative', () => {
+    const verdict = evaluateAnswer(target('the'), 'dog', [
+      { transcript: 'dog', confidence: 0.6 },
+      { transcript: 'the', confidence: 0.3 }
+    ]);
+    expect(verdict.isCorrect).toBe(true);
+    expect(verdict.source).toEqual({ kind: 'alternative', index: 1 });
+  });
+
+  describe('assessment mode', () => {
+    it('needs the word on its own', () => {
+      expect(accepts('the', 'um the', 'assessment')).toBe(false);
+      expect(accepts('the', 'The.', 'assessment')).toBe(true);
+    });
+
+    it('ignores alternatives and unsure answers', () => {
+      const alternatives = [
+        { transcript: 'dog', confidence: 0.6 },
+        { transcript: 'the', confidence: 0.3 }
+      ];
+      const policy = ACCEPTANCE_PRESETS.assessment;
+      expect(evaluateAnswer(target('the'), 'dog', alternatives, { policy }).isCorrect).toBe(false);
+      expect(evaluateAnswer(target('the'), 'the', [{ transcript: 'the', confidence: 0.2 }], { policy }).isCorrect)
+        .toBe(false);
+    });
+  });
+
+  describe('phrases and sentences', () => {
+    it('gives partial credit for the words read correctly', () => {
+      const verdict = evaluateAnswer(target('I can see the cat.'), 'I can see the dog', []);
+      expect(verdict.isCorrect).toBe(false);
+      expect(verdict.score).toBeCloseTo(0.8);
+      expect(verdict.words.map(word => word.correct)).toEqual([true, true, true, true, false]);
+    });
+
+    it('accepts the whole sentence with a filler in practice mode only', () => {
+      expect(accepts('We like to play.', 'um we like to play')).toBe(true);
+      expect(accepts('We like to play.', 'um we like to play', 'assessment')).toBe(false);
+    });
+
+    it('scores a missing word', () => {
+      const verdict = evaluateAnswer(target('once upon a time'), 'once upon time', []);
+      expect(verdict.score).toBeCloseTo(0.75);
+      expect(verdict.words.find(word => !word.correct)?.word).toBe('a');
+    });
+  });
+
+  it('rejects a different word', () => {
+    expect(accepts('the', 'dog')).toBe(false);
+  });
+
+  it.each(['constructor', 'toString', 'valueOf', 'hasOwnProperty'])('rejects "%s" without throwing', heard => {
+    expect(accepts('the', heard)).toBe(false);
+  });
+
+  it('reports nothing heard for an empty transcript', () => {
+    const verdict = evaluateAnswer(target('the'), '', []);
+    expect(verdict.isCorrect).toBe(false);
+    expect(verdict.reason).toBe('Nothing was heard');
+  });
+});
@@ -0,0 +1,214 @@
+import type { Word } from '@/data/words';
+import type { RecognitionAlternative } from '@/lib/recognition';
+import { alignWords, WordResult } from './align';
+import { matchWord, MatchRule, WordMatch } from './fuzzy';
+import { normalizeTranscript } from './normalize';
+import { AcceptancePolicy, ACCEPTANCE_PRESETS, DEFAULT_ACCEPTANCE_MODE } from './policy';
+
+export interface EvaluateAnswerOptions {
+  policy?: AcceptancePolicy;
+  // Other words in the game; hearing one of them is a misreading, not a near-miss
+  vocabulary?: ReadonlySet<string>;
+}
+
+// Where the matching word was heard
+export type AnswerSource =
+  | { kind: 'transcript' }
+  | { kind: 'alternative'; index: number };
+
+export interface AnswerPossibility {
+  word: string;
+  confidence: number;
+}
+
+export interface AnswerVerdict {
+  isCorrect: boolean;
+  // The heard word that was accepted, and how
+  matchedWord?: string;
+  source?: AnswerSource;
+  rule?: MatchRule;
+  // Recognizer confidence for the transcript or alternative the match came from
+  confidence?: number;
+  reason: string;
+  // Fraction of the target's words read correctly: 0 or 1 for single words, partial
+  // credit for phrases and sentences
+  score: number;
+  // Per-word outcome, in the order of the target text
+  words: WordResult[];
+  // Hypotheses worth showing in the game log
+  possibilities: AnswerPossibility[];
+  // Every heard word that was compared with the target, in order
+  checks: Array<{ word: string; match: WordMatch }>;
+}
+
+interface Hypothesis {
+  text: string;
+  source: AnswerSource;
+  confidence: number;
+}
+
+// Alternatives below this confidence are noise and left out of the log
+const MIN_POSSIBILITY_CONFIDENCE = 0.1;
+
+const normalizeWord = (word: string) => normalizeTranscript(word).join(' ');
+
+// Score a phrase or sentence target against the hypothesis that lines up best with it
+const evaluatePhrase = (
+  target: Word,
+  hypotheses: Hypothesis[],
+  options: EvaluateAnswerOptions & { policy: AcceptancePolicy }
+): Omit<AnswerVerdict, 'possibilities'> => {
+  const { policy, vocabulary } = options;
+  // Keep track of which displayed word each token came from, so "twenty-one" stays one word
+  const displayWords = target.text.split(/\s+/).filter(Boolean);
+  const tokensPerWord = displayWords.map(word => normalizeTranscript(word));
+  const targetTokens = tokensPerWord.flat();
+
+  let best: { hypothesis: Hypothesis; alignment: ReturnType<typeof alignWords> } | null = null;
+  for (const hypothesis of hypotheses) {
+    const alignment = alignWords(targetTokens, normalizeTranscript(hypothesis.text), {
+      strictness: policy.strictness,
+      vocabulary
+    });
+    if (
+      !best ||
+      alignment.matchedCount > best.alignment.matchedCount ||
+      (alignment.matchedCount === best.alignment.matchedCount &&
+        alignment.extraWords.length < best.alignment.extraWords.length)
+    ) {
+      best = { hypothesis, alignment };
+    }
+  }
+
+  const { alignment, hypothesis } = best;
+  let tokenIndex = 0;
+  const words: WordResult[] = displayWords.map((word, index) => {
+    const tokens = alignment.words.slice(tokenIndex, tokenIndex + tokensPerWord[index].length);
+    tokenIndex += tokens.length;
+    const heard = tokens.map(token => token.heard).filter(Boolean);
+    return {
+      word,
+      correct: tokens.every(token => token.correct),
+      heard: heard.length > 0 ? heard.join(' ') : undefined
+    };
+  });
+
+  const extraWordsAllowed = policy.utterance === 'contains' || alignment.extraWords.length === 0;
+  const isCorrect = alignment.matchedCount === targetTokens.length && extraWordsAllowed;
+  const correctWords = words.filter(word => word.correct).length;
+  let reason = `${correctWords} of ${words.length} words read correctly`;
+  if (!extraWordsAllowed) {
+    reason += `, with extra words "${alignment.extraWords.join(' ')}"`;
+  }
+
+  return {
+    isCorrect,
+    source: hypothesis.source,
+    confidence: hypothesis.confidence,
+    reason,
+    score: correctWords / words.length,
+    words,
+    checks: alignment.words.map(result => ({
+      word: result.heard ?? '',
+      match: result.match ?? { matched: false, reason: `"${result.word}" was not heard` }
+    }))
+  };
+};
+
+// Decide whether what the recognizer heard counts as reading the target. For a single
+// word the transcript and, if the policy allows, each alternative are candidates and the
+// first accepted word wins; phrases and sentences are aligned word by word.
+export function evaluateAnswer(
+  target: Word,
+  transcript: string,
+  alternatives: RecognitionAlternative[] = [],
+  options: EvaluateAnswerOptions = {}
+): AnswerVerdict {
+  const { policy = ACCEPTANCE_PRESETS[DEFAULT_ACCEPTANCE_MODE], vocabulary } = options;
+  const targetWord = normalizeWord(target.text);
+
+  const possibilities = alternatives.length > 0
+    ? alternatives
+        .filter(alt => alt.confidence > MIN_POSSIBILITY_CONFIDENCE)
+        .map(alt => ({ word: normalizeWord(alt.transcript), confidence: alt.confidence }))
+    : [{ word: normalizeWord(transcript), confidence: 1.0 }];
+
+  const topConfidence = alternatives[0]?.confidence ?? 1.0;
+  if (topConfidence < policy.minTopConfidence) {
+    return {
+      isCorrect: false,
+      reason: `Top hypothesis confidence ${topConfidence.toFixed(2)} is below ${policy.minTopConfidence}`,
+      score: 0,
+      words: target.text.split(/\s+/).filter(Boolean).map(word => ({ word, correct: false })),
+      possibilities,
+      checks: []
+    };
+  }
+
+  const hypotheses: Hypothesis[] = [
+    { text: transcript, source: { kind: 'transcript' }, confidence: topConfidence }
+  ];
+  if (policy.useAlternatives) {
+    alternatives.forEach((alt, index) => {
+      if (alt.confidence >= policy.minAlternativeConfidence) {
+        hypotheses.push({ text: alt.transcript, source: { kind: 'alternative', index }, confidence: alt.confidence });
+      }
+    });
+  }
+
+  if (targetWord.includes(' ')) {
+    return { ...evaluatePhrase(target, hypotheses, { policy, vocabulary }), possibilities };
+  }
+
+  const checks: AnswerVerdict['checks'] = [];
+  const seen = new Set<string>();
+  for (const hypothesis of hypotheses) {
+    const words = normalizeTranscript(hypothesis.text);
+    if (policy.utterance === 'whole' && words.length > 1) {
+      const phrase = words.join(' ');
+      if (!seen.has(phrase)) {
+        seen.add(phrase);
+        checks.push({ word: phrase, match: { matched: false, reason: `"${phrase}" is more than the word on its own` } });
+      }
+      continue;
+    }
+
+    for (const word of words) {
+      if (seen.has(word)) continue;
+      seen.add(word);
+
+      const match = matchWord(word, targetWord, {
+        strictness: policy.strictness,
+        vocabulary,
+        targetPhonetic: target.phonetic
+      });
+      checks.push({ word, match });
+
+      if (match.matched) {
+        return {
+          isCorrect: true,
+          matchedWord: word,
+          source: hypothesis.source,
+          rule: match.rule,
+          confidence: hypothesis.confidence,
+          reason: match.reason,
+          score: 1,
+          words: [{ word: target.text, correct: true, heard: word, match }],
+          possibilities,
+          checks
+        };
+      }
+    }
+  }
+
+  return {
+    isCorrect: false,
+    reason: checks.length > 0
+      ? `None of the heard words matched "${targetWord}"`
+      : 'Nothing was heard',
+    score: 0,
+    words: [{ word: target.text, correct: false }],
+    possibilities,
+    checks
+  };
+}
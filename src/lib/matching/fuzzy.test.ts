@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { matchWord } from './fuzzy';
+
+describe('matchWord', () => {
+  it.each([
+    ['sad', 'said'],
+    ['eat', 'it'],
+    ['well', 'will'],
+    ['hat', 'had'],
+    ['add', 'at'],
+    ['do', 'to']
+  ])('rejects the real word "%s" for "%s"', (heard, target) => {
+    const match = matchWord(heard, target);
+    expect(match.matched).toBe(false);
+    expect(match.reason).toContain('different word');
+  });
+
+  it.each([
+    ['dis', 'this'],
+    ['wuz', 'was'],
+    ['duh', 'the']
+  ])('accepts "%s" for "%s" as a near-miss', (heard, target) => {
+    expect(matchWord(heard, target)).toMatchObject({ matched: true, rule: 'pronunciation' });
+  });
+
+  it('accepts close real words when lenient', () => {
+    expect(matchWord('sad', 'said', { strictness: 'lenient' }).matched).toBe(true);
+  });
+
+  it('accepts only the same pronunciation when strict', () => {
+    expect(matchWord('dis', 'this', { strictness: 'strict' }).matched).toBe(false);
+    expect(matchWord('two', 'to', { strictness: 'strict' })).toMatchObject({ matched: true, rule: 'homophone' });
+  });
+
+  it('rejects a word from the game list', () => {
+    expect(matchWord('they', 'the', { vocabulary: new Set(['they']) }).reason).toContain('word list');
+  });
+});
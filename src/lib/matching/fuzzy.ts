@@ -0,0 +1,160 @@
+import { doubleMetaphone } from 'double-metaphone';
+import { areHomonyms, isRecognizerAlias } from '@/data/homonyms';
+import { editDistance } from './editDistance';
+import { comparePronunciations, formatPronunciation, isDictionaryWord } from './phonemes';
+
+// How forgiving matching is:
+// - strict: exact spelling, the same pronunciation (homophones) or a known recognizer alias
+// - normal: also one similar sound swapped, when what was heard isn't another real word
+//   ("dis" for "this", but never "sad" for "said")
+// - lenient: allows a little more difference in both sound and spelling, and real words
+//   that sound close
+export type MatchStrictness = 'strict' | 'normal' | 'lenient';
+
+interface MatchThresholds {
+  // Largest weighted phoneme edit distance, see phonemes.ts; similar sounds cost 0.5
+  maxPhonemeDistance: number;
+  // Whether a near-miss may be another dictionary word; in a reading game "hat" for
+  // "had" is usually a misreading
+  acceptOtherWords: boolean;
+  // Spelling-based fallback for words missing from the pronunciation lexicon
+  soundsAlike: {
+    // Largest edit distance allowed between the closest Double Metaphone codes
+    maxCodeDistance: number;
+    // Largest edit distance allowed between the spellings
+    maxSpellingDistance: number;
+  } | null;
+}
+
+const MATCH_THRESHOLDS: Record<MatchStrictness, MatchThresholds> = {
+  strict: { maxPhonemeDistance: 0, acceptOtherWords: false, soundsAlike: null },
+  normal: {
+    maxPhonemeDistance: 0.5,
+    acceptOtherWords: false,
+    soundsAlike: { maxCodeDistance: 1, maxSpellingDistance: 2 }
+  },
+  lenient: {
+    maxPhonemeDistance: 1,
+    acceptOtherWords: true,
+    soundsAlike: { maxCodeDistance: 1, maxSpellingDistance: 3 }
+  }
+};
+
+export const DEFAULT_STRICTNESS: MatchStrictness = 'normal';
+
+export type MatchRule = 'exact' | 'homophone' | 'alias' | 'pronunciation' | 'phonetic';
+
+export interface WordMatch {
+  matched: boolean;
+  // Rule that accepted the word, when it matched
+  rule?: MatchRule;
+  // Human-readable explanation of the decision, for the status log
+  reason: string;
+}
+
+export interface WordMatchOptions {
+  strictness?: MatchStrictness;
+  // Other words the child might be reading. Metaphone drops vowels, so "in", "an" and
+  // "one" share a code; hearing a different word from this list is never a fuzzy match.
+  vocabulary?: ReadonlySet<string>;
+  // ARPAbet pronunciation of the target, e.g. Word.phonetic; the lexicon is used otherwise
+  targetPhonetic?: string;
+}
+
+const phoneticCodes = (word: string): string[] => Array.from(new Set(doubleMetaphone(word)));
+
+const closestCodes = (heard: string, target: string) => {
+  let best = { heard: '', target: '', distance: Infinity };
+  for (const heardCode of phoneticCodes(heard)) {
+    for (const targetCode of phoneticCodes(target)) {
+      const distance = editDistance(heardCode, targetCode);
+      if (distance < best.distance) {
+        best = { heard: heardCode, target: targetCode, distance };
+      }
+    }
+  }
+  return best;
+};
+
+const edits = (count: number) => `${count} ${count === 1 ? 'edit' : 'edits'}`;
+
+// Decide whether a single normalized word heard by the recognizer counts as the target word
+export function matchWord(heard: string, target: string, options: WordMatchOptions = {}): WordMatch {
+  const { strictness = DEFAULT_STRICTNESS, vocabulary, targetPhonetic } = options;
+
+  if (heard === target) {
+    return { matched: true, rule: 'exact', reason: `"${heard}" is spelled the same as "${target}"` };
+  }
+
+  if (areHomonyms(heard, target)) {
+    return { matched: true, rule: 'homophone', reason: `"${heard}" is a listed homophone of "${target}"` };
+  }
+
+  if (isRecognizerAlias(heard, target)) {
+    return { matched: true, rule: 'alias', reason: `Recognizers often write "${target}" as "${heard}"` };
+  }
+
+  const thresholds = MATCH_THRESHOLDS[strictness];
+  const pronunciations = heard ? comparePronunciations(heard, target, targetPhonetic) : null;
+
+  // When both pronunciations are known they decide; unlike spelling they keep vowels apart
+  if (pronunciations) {
+    const heardSounds = formatPronunciation(pronunciations.heard);
+    const targetSounds = formatPronunciation(pronunciations.target);
+    if (pronunciations.distance === 0) {
+      return {
+        matched: true,
+        rule: 'pronunciation',
+        reason: `"${heard}" is pronounced the same as "${target}" (${targetSounds})`
+      };
+    }
+    if (pronunciations.distance > thresholds.maxPhonemeDistance) {
+      return {
+        matched: false,
+        reason: `"${heard}" (${heardSounds}) is pronounced differently from "${target}" (${targetSounds})`
+      };
+    }
+    if (vocabulary?.has(heard)) {
+      return { matched: false, reason: `"${heard}" is a different word in the word list` };
+    }
+    if (!thresholds.acceptOtherWords && isDictionaryWord(heard)) {
+      return { matched: false, reason: `"${heard}" (${heardSounds}) is a different word from "${target}"` };
+    }
+    return {
+      matched: true,
+      rule: 'pronunciation',
+      reason: `"${heard}" (${heardSounds}) is pronounced almost like "${target}" (${targetSounds})`
+    };
+  }
+
+  if (!thresholds.soundsAlike || !heard) {
+    return { matched: false, reason: `"${heard}" is not "${target}" or one of its homophones` };
+  }
+
+  if (vocabulary?.has(heard)) {
+    return { matched: false, reason: `"${heard}" is a different word in the word list` };
+  }
+
+  const { maxCodeDistance, maxSpellingDistance } = thresholds.soundsAlike;
+  const codes = closestCodes(heard, target);
+  if (codes.distance > maxCodeDistance) {
+    return {
+      matched: false,
+      reason: `"${heard}" sounds different from "${target}" (${codes.heard} vs ${codes.target})`
+    };
+  }
+
+  const spellingDistance = editDistance(heard, target);
+  if (spellingDistance > maxSpellingDistance) {
+    return {
+      matched: false,
+      reason: `"${heard}" is spelled too differently from "${target}" (${edits(spellingDistance)})`
+    };
+  }
+
+  return {
+    matched: true,
+    rule: 'phonetic',
+    reason: `"${heard}" sounds like "${target}" (${codes.heard} vs ${codes.target}, ${edits(spellingDistance)} apart)`
+  };
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeTranscript } from './normalize';
+
+// Names of Object.prototype members, which recognizer text can easily contain
+const PROTOTYPE_KEYS = ['constructor', 'toString', 'valueOf', 'hasOwnProperty', 'isPrototypeOf'];
+
+describe('normalizeTranscript', () => {
+  it('spells out numbers, letters and missing apostrophes', () => {
+    expect(normalizeTranscript("I'll get 2 B’s!")).toEqual(["i'll", 'get', 'two', 'bees']);
+    expect(normalizeTranscript('dont stop 21')).toEqual(["don't", 'stop', 'twenty', 'one']);
+  });
+
+  it.each(PROTOTYPE_KEYS)('keeps "%s" as an ordinary word', key => {
+    expect(normalizeTranscript(key)).toEqual([key.toLowerCase()]);
+  });
+});
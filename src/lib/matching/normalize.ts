@@ -0,0 +1,119 @@
+// Turns recognizer output into lower-case word tokens before matching: "I'll get 2 B’s!"
+// becomes ["i'll", "get", "two", "bees"]. Recognizers write numbers as digits and some
+// words as single letters, so those are spelled out the way they are said.
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+  'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+// Ordinals that aren't just the cardinal plus "th"
+const IRREGULAR_ORDINALS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth'
+};
+
+// How a letter's name is said, spelled as a word that can be matched. Maps rather than
+// plain objects, so recognizer text like "constructor" can't hit Object.prototype.
+const LETTER_NAMES = new Map(Object.entries({
+  b: 'bee', c: 'see', d: 'dee', e: 'ee', f: 'ef', g: 'gee', h: 'aitch', j: 'jay', k: 'kay', l: 'el',
+  m: 'em', n: 'en', o: 'oh', p: 'pee', q: 'queue', r: 'are', s: 'ess', t: 'tee', u: 'you', v: 'vee',
+  w: 'double you', x: 'ex', y: 'why', z: 'zee'
+}));
+
+// Contractions recognizers sometimes write without the apostrophe. Only spellings that
+// aren't also words are listed ("were", "ill" and "wont" are left alone).
+const MISSING_APOSTROPHES = new Map(Object.entries({
+  theyre: "they're", youre: "you're", dont: "don't", doesnt: "doesn't", didnt: "didn't",
+  isnt: "isn't", wasnt: "wasn't", arent: "aren't", werent: "weren't", couldnt: "couldn't",
+  shouldnt: "shouldn't", wouldnt: "wouldn't", thats: "that's", whats: "what's", theres: "there's",
+  im: "i'm", ive: "i've", youll: "you'll", youve: "you've", theyll: "they'll", theyve: "they've"
+}));
+
+// Largest number spelled out; anything bigger is left as digits
+const MAX_SPELLED_NUMBER = 999999;
+
+const belowThousand = (n: number): string[] => {
+  const words: string[] = [];
+  if (n >= 100) {
+    words.push(ONES[Math.floor(n / 100)], 'hundred');
+    n %= 100;
+    if (n === 0) return words;
+  }
+  if (n < 20) {
+    words.push(ONES[n]);
+  } else {
+    words.push(TENS[Math.floor(n / 10)]);
+    if (n % 10) words.push(ONES[n % 10]);
+  }
+  return words;
+};
+
+export function numberToWords(n: number): string[] {
+  if (n < 1000) return belowThousand(n);
+  const rest = n % 1000;
+  return [...belowThousand(Math.floor(n / 1000)), 'thousand', ...(rest ? belowThousand(rest) : [])];
+}
+
+const toOrdinal = (words: string[]): string[] => {
+  const last = words[words.length - 1];
+  const ordinal = IRREGULAR_ORDINALS[last] ?? (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`);
+  return [...words.slice(0, -1), ordinal];
+};
+
+// "21" -> ["twenty", "one"], "3rd" -> ["third"], "2.5" -> ["two", "point", "five"]
+const spellNumber = (token: string): string[] | null => {
+  const ordinal = token.match(/^(\d+)(st|nd|rd|th)$/);
+  if (ordinal) {
+    const n = Number(ordinal[1]);
+    return n <= MAX_SPELLED_NUMBER ? toOrdinal(numberToWords(n)) : null;
+  }
+
+  const decimal = token.match(/^(\d+)\.(\d+)$/);
+  if (decimal) {
+    const whole = Number(decimal[1]);
+    if (whole > MAX_SPELLED_NUMBER) return null;
+    return [...numberToWords(whole), 'point', ...decimal[2].split('').map(digit => ONES[Number(digit)])];
+  }
+
+  if (/^\d+$/.test(token)) {
+    const n = Number(token);
+    return n <= MAX_SPELLED_NUMBER ? numberToWords(n) : null;
+  }
+  return null;
+};
+
+const normalizeToken = (token: string): string[] => {
+  const number = spellNumber(token);
+  if (number) return number;
+
+  // "a" and "i" are words in their own right, so they have no entry
+  if (LETTER_NAMES.has(token)) return LETTER_NAMES.get(token).split(' ');
+  // Plural letters: "B's" or "Bs", but not the word "us"
+  const pluralLetter = token.match(/^([a-z])'?s$/);
+  if (pluralLetter && LETTER_NAMES.has(pluralLetter[1]) && token !== 'us') {
+    return `${LETTER_NAMES.get(pluralLetter[1])}s`.split(' ');
+  }
+
+  return [MISSING_APOSTROPHES.get(token) ?? token];
+};
+
+// A word, possibly with inner apostrophes ("they're"), or a number, possibly with a
+// decimal part or ordinal suffix ("2.5", "3rd"). Everything else, including all other
+// punctuation, falls between tokens and is dropped.
+const TOKEN_PATTERN = /\p{N}+(?:\.\p{N}+)?\p{L}*|\p{L}+(?:'\p{L}+)*/gu;
+
+// Normalize text into word tokens for matching
+export function normalizeTranscript(text: string): string[] {
+  const cleaned = text
+    .normalize('NFKC')
+    .toLowerCase()
+    // Curly and other look-alike apostrophes
+    .replace(/[‘’ʼ′`]/g, "'")
+    // Thousands separators, so "1,000" is one number
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    // Dashes and slashes separate words: "twenty-one", "and/or"
+    .replace(/[\p{Pd}/]/gu, ' ');
+
+  return (cleaned.match(TOKEN_PATTERN) ?? []).flatMap(normalizeToken);
+}
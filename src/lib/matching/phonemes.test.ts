@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { lookupPronunciations } from './phonemes';
+
+// Lowercase keys a plain object lookup would find on Object.prototype
+const PROTOTYPE_KEYS = ['constructor', '__proto__'];
+
+describe('lookupPronunciations', () => {
+  it('finds lexicon entries and puts the given pronunciation first', () => {
+    expect(lookupPronunciations('the')).toContainEqual(['DH', 'AH']);
+    expect(lookupPronunciations('the', 'dh iy1')[0]).toEqual(['DH', 'IY']);
+  });
+
+  it.each(PROTOTYPE_KEYS)('knows no pronunciation for "%s"', key => {
+    expect(lookupPronunciations(key)).toEqual([]);
+  });
+});
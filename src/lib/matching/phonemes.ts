@@ -0,0 +1,79 @@
+import lexicon from '@/data/pronunciations.json';
+import soundSpellings from '@/data/soundSpellings.json';
+import { editDistance } from './editDistance';
+
+// A word's pronunciation as ARPAbet phonemes without stress, e.g. ['DH', 'AH']
+export type Pronunciation = string[];
+
+// Pairs of phonemes that children and recognizers commonly swap ("wiz" for "with",
+// "hey" for "he"); substituting one for the other costs half an edit
+const SIMILAR_PHONEMES = [
+  // Voicing
+  ['P', 'B'], ['T', 'D'], ['K', 'G'], ['F', 'V'], ['TH', 'DH'], ['S', 'Z'], ['SH', 'ZH'], ['CH', 'JH'],
+  // "th" said as a stop, "f", "v", "s" or "z"
+  ['DH', 'D'], ['TH', 'T'], ['TH', 'F'], ['DH', 'V'], ['TH', 'S'], ['DH', 'Z'],
+  ['M', 'N'], ['N', 'NG'],
+  // Neighbouring vowels
+  ['IY', 'IH'], ['IY', 'EY'], ['IH', 'EH'], ['EY', 'EH'], ['EH', 'AE'],
+  ['UW', 'UH'], ['AA', 'AO'], ['AA', 'AH'], ['AO', 'OW'], ['AH', 'ER']
+];
+
+const similarPairs = new Set(SIMILAR_PHONEMES.flatMap(([a, b]) => [`${a} ${b}`, `${b} ${a}`]));
+
+const substitutionCost = (a: string, b: string) => {
+  if (a === b) return 0;
+  return similarPairs.has(`${a} ${b}`) ? 0.5 : 1;
+};
+
+// A Map, so looking up recognizer text like "constructor" can't hit Object.prototype
+const LEXICON = new Map<string, string[]>(Object.entries(lexicon));
+// Lexicon entries that only spell out how a word was said ("dis" for "this")
+const SOUND_SPELLINGS = new Set<string>(soundSpellings);
+
+export function parsePronunciation(arpabet: string): Pronunciation {
+  return arpabet.toUpperCase().replace(/\d/g, '').split(/\s+/).filter(Boolean);
+}
+
+export const formatPronunciation = (pronunciation: Pronunciation) => pronunciation.join(' ');
+
+// Known pronunciations of a normalized word, from the bundled lexicon plus any given one
+export function lookupPronunciations(word: string, phonetic?: string): Pronunciation[] {
+  const arpabet = [...(phonetic ? [phonetic] : []), ...(LEXICON.get(word) ?? [])];
+  return Array.from(new Set(arpabet.map(entry => formatPronunciation(parsePronunciation(entry)))))
+    .map(parsePronunciation);
+}
+
+// Whether a normalized word is a real word with its own pronunciation, rather than
+// unknown or a spelling of how another word sounds
+export const isDictionaryWord = (word: string): boolean => LEXICON.has(word) && !SOUND_SPELLINGS.has(word);
+
+export interface PronunciationComparison {
+  // Weighted phoneme edit distance between the closest pronunciations; 0 means homophones
+  distance: number;
+  heard: Pronunciation;
+  target: Pronunciation;
+}
+
+// Compare the closest known pronunciations of two words, or null if either is unknown
+export function comparePronunciations(
+  heard: string,
+  target: string,
+  targetPhonetic?: string
+): PronunciationComparison | null {
+  const heardPronunciations = lookupPronunciations(heard);
+  const targetPronunciations = lookupPronunciations(target, targetPhonetic);
+  if (heardPronunciations.length === 0 || targetPronunciations.length === 0) {
+    return null;
+  }
+
+  let best: PronunciationComparison | null = null;
+  for (const heardPronunciation of heardPronunciations) {
+    for (const targetPronunciation of targetPronunciations) {
+      const distance = editDistance(heardPronunciation, targetPronunciation, substitutionCost);
+      if (!best || distance < best.distance) {
+        best = { distance, heard: heardPronunciation, target: targetPronunciation };
+      }
+    }
+  }
+  return best;
+}
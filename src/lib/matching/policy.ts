@@ -0,0 +1,38 @@
+import { MatchStrictness } from './fuzzy';
+
+// Which recognizer hypotheses may count as reading the word, and how closely they must match
+export interface AcceptancePolicy {
+  // Reject the attempt outright when the top hypothesis is less confident than this
+  minTopConfidence: number;
+  // Whether lower-ranked NBest alternatives can make the answer correct
+  useAlternatives: boolean;
+  // Alternatives below this confidence are ignored
+  minAlternativeConfidence: number;
+  // 'whole': the hypothesis must be the word on its own; 'contains': it may appear
+  // inside a longer phrase ("I said the")
+  utterance: 'whole' | 'contains';
+  strictness: MatchStrictness;
+}
+
+export type AcceptanceMode = 'practice' | 'assessment';
+
+export const ACCEPTANCE_PRESETS: Record<AcceptanceMode, AcceptancePolicy> = {
+  // Encouraging: any plausible hypothesis containing something close to the word counts
+  practice: {
+    minTopConfidence: 0,
+    useAlternatives: true,
+    minAlternativeConfidence: 0.1,
+    utterance: 'contains',
+    strictness: 'normal'
+  },
+  // For assessment: only a confident top hypothesis that is the word itself, or a homophone
+  assessment: {
+    minTopConfidence: 0.5,
+    useAlternatives: false,
+    minAlternativeConfidence: 0.5,
+    utterance: 'whole',
+    strictness: 'strict'
+  }
+};
+
+export const DEFAULT_ACCEPTANCE_MODE: AcceptanceMode = 'practice';
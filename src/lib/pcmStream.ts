@@ -0,0 +1,87 @@
+// Captures a microphone stream as 16kHz mono 16-bit PCM frames for streaming recognition
+
+export const STREAMING_SAMPLE_RATE = 16000;
+
+// The worklet just forwards each render quantum's samples to the main thread; it is
+// loaded from a Blob URL so it needs no separate build entry
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      this.port.postMessage(channel.slice());
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+// Batch render quanta (128 samples) into ~100ms frames to keep message counts down
+const FRAME_SAMPLES = STREAMING_SAMPLE_RATE / 10;
+
+const toPcm16 = (samples: Float32Array): Int16Array => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
+  }
+  return pcm;
+};
+
+// Start delivering PCM frames from the stream. Resolves with a function that flushes
+// any buffered audio and releases the audio graph.
+export async function startPcmCapture(
+  stream: MediaStream,
+  onFrame: (frame: Int16Array) => void
+): Promise<() => void> {
+  // The browser resamples the microphone to the context's rate for us
+  const audioContext = new AudioContext({ sampleRate: STREAMING_SAMPLE_RATE });
+  const workletUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await audioContext.audioWorklet.addModule(workletUrl);
+  } finally {
+    URL.revokeObjectURL(workletUrl);
+  }
+
+  const source = audioContext.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(audioContext, 'pcm-capture');
+  let buffer = new Float32Array(FRAME_SAMPLES);
+  let buffered = 0;
+
+  const flush = () => {
+    if (buffered > 0) {
+      onFrame(toPcm16(buffer.subarray(0, buffered)));
+      buffer = new Float32Array(FRAME_SAMPLES);
+      buffered = 0;
+    }
+  };
+
+  node.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    let samples = event.data;
+    while (samples.length > 0) {
+      const count = Math.min(samples.length, FRAME_SAMPLES - buffered);
+      buffer.set(samples.subarray(0, count), buffered);
+      buffered += count;
+      samples = samples.subarray(count);
+      if (buffered === FRAME_SAMPLES) {
+        flush();
+      }
+    }
+  };
+
+  source.connect(node);
+  // Keep the node in the rendered graph; it writes nothing to its output, so this is silent
+  node.connect(audioContext.destination);
+
+  let stopped = false;
+  return () => {
+    if (stopped) return;
+    stopped = true;
+    node.port.onmessage = null;
+    flush();
+    source.disconnect();
+    node.disconnect();
+    audioContext.close();
+  };
+}
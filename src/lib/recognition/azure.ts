@@ -0,0 +1,203 @@
+import {
+  AudioRecognitionProvider,
+  PronunciationAssessment,
+  RecognitionResult,
+  RecognizeOptions
+} from './types';
+import { createAzureTokenSource } from './azureToken';
+import { RecognitionError, recognitionFailed } from './errors';
+
+// Pronunciation assessment scores; the REST API returns them inline while newer
+// responses nest them under PronunciationAssessment, so both are accepted
+interface AzurePronunciationScores {
+  AccuracyScore?: number;
+  FluencyScore?: number;
+  CompletenessScore?: number;
+  PronScore?: number;
+  ErrorType?: string;
+  PronunciationAssessment?: Omit<AzurePronunciationScores, 'PronunciationAssessment'>;
+}
+
+interface AzurePhoneme extends AzurePronunciationScores {
+  Phoneme: string;
+}
+
+interface AzureWord extends AzurePronunciationScores {
+  Word: string;
+  Phonemes?: AzurePhoneme[];
+}
+
+// Shape of the detailed-format response from the Azure short audio REST API
+interface AzureNBestItem extends AzurePronunciationScores {
+  Confidence: number;
+  Lexical: string;
+  ITN: string;
+  MaskedITN: string;
+  Display: string;
+  Words?: AzureWord[];
+}
+
+interface AzureRecognitionResponse {
+  RecognitionStatus: string;
+  DisplayText?: string;
+  Offset?: number;
+  Duration?: number;
+  NBest?: AzureNBestItem[];
+}
+
+export interface AzureProviderOptions {
+  // Backend route that issues short-lived tokens, see server/speech-token.mjs
+  tokenUrl?: string;
+  // Overrides the regional endpoint, e.g. to point at server/fake-azure-speech.mjs
+  endpoint?: string;
+  language?: string;
+}
+
+const scores = (item: AzurePronunciationScores) => item.PronunciationAssessment ?? item;
+
+const toPronunciationAssessment = (item: AzureNBestItem): PronunciationAssessment | undefined => {
+  const overall = scores(item);
+  if (overall.AccuracyScore === undefined) {
+    return undefined;
+  }
+
+  return {
+    accuracy: overall.AccuracyScore,
+    fluency: overall.FluencyScore ?? 0,
+    completeness: overall.CompletenessScore ?? 0,
+    overall: overall.PronScore ?? overall.AccuracyScore,
+    words: (item.Words ?? []).map(word => ({
+      word: word.Word,
+      accuracy: scores(word).AccuracyScore ?? 0,
+      errorType: scores(word).ErrorType ?? 'None',
+      phonemes: (word.Phonemes ?? []).map(phoneme => ({
+        phoneme: phoneme.Phoneme,
+        accuracy: scores(phoneme).AccuracyScore ?? 0
+      }))
+    }))
+  };
+};
+
+// Retry-After is given in seconds on 429 and 503 responses
+const retryAfterMs = (response: Response) => {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+};
+
+// Value for the Pronunciation-Assessment header, a base64-encoded JSON config
+const pronunciationAssessmentHeader = (referenceText: string) => btoa(JSON.stringify({
+  ReferenceText: referenceText,
+  GradingSystem: 'HundredMark',
+  Granularity: 'Phoneme',
+  Dimension: 'Comprehensive',
+  PhonemeAlphabet: 'IPA'
+}));
+
+export function createAzureProvider(options: AzureProviderOptions = {}): AudioRecognitionProvider {
+  const {
+    tokenUrl = import.meta.env.VITE_AZURE_TOKEN_URL,
+    endpoint = import.meta.env.VITE_AZURE_SPEECH_ENDPOINT,
+    language = 'en-US'
+  } = options;
+  const tokenSource = tokenUrl ? createAzureTokenSource(tokenUrl) : null;
+
+  const postAudio = async (wavBlob: Blob, expectedWords: string[], options: RecognizeOptions) => {
+    try {
+      return await sendAudio(wavBlob, expectedWords, options);
+    } catch (error) {
+      // fetch only rejects with a TypeError when no response was received at all
+      if (error instanceof TypeError) {
+        throw new RecognitionError('network', `Azure request failed: ${error.message}`);
+      }
+      throw error;
+    }
+  };
+
+  const sendAudio = async (wavBlob: Blob, expectedWords: string[], options: RecognizeOptions) => {
+    const { token, region } = await tokenSource.getToken();
+    const baseUrl = endpoint ? endpoint.replace(/\/$/, '') : `https://${region}.stt.speech.microsoft.com`;
+
+    // Call Azure Speech to Text API
+    const speechContext = expectedWords.length > 0
+      ? `&speechcontext={"phrases":${JSON.stringify(expectedWords)}}`
+      : '';
+
+    return fetch(
+      `${baseUrl}/speech/recognition/conversation/cognitiveservices/v1?language=${language}&format=detailed${speechContext}`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'audio/wav; codecs=audio/pcm; samplerate=16000',
+          'Accept': 'application/json',
+          'X-Requested-With': 'XMLHttpRequest',
+          ...(options.assessPronunciation && options.referenceText
+            ? { 'Pronunciation-Assessment': pronunciationAssessmentHeader(options.referenceText) }
+            : {})
+        },
+        body: wavBlob,
+        signal: options.signal
+      }
+    );
+  };
+
+  return {
+    name: 'azure',
+    kind: 'audio',
+    remote: true,
+    isAvailable: () => Boolean(tokenSource),
+    prepare: async () => {
+      // Fetch the first token up front so the first word isn't slowed down by it
+      await tokenSource?.getToken();
+    },
+    recognize: async (wavBlob, expectedWords, addStatus, options = {}): Promise<RecognitionResult> => {
+      if (!tokenSource) {
+        throw new Error('Azure Speech token URL not configured');
+      }
+
+      let response = await postAudio(wavBlob, expectedWords, options);
+
+      // The token may have been revoked or expired early; fetch a fresh one and retry once
+      if (response.status === 401) {
+        addStatus?.('Azure rejected the speech token, refreshing it');
+        tokenSource.invalidate();
+        response = await postAudio(wavBlob, expectedWords, options);
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        addStatus?.(`Azure API error: ${response.status} ${response.statusText}`);
+        addStatus?.(`Error details: ${errorText}`);
+        throw new RecognitionError('http', `Azure API error: ${response.statusText}. Details: ${errorText}`, {
+          httpStatus: response.status,
+          retryAfterMs: retryAfterMs(response)
+        });
+      }
+
+      const result: AzureRecognitionResponse = await response.json();
+      addStatus?.("Received response from Azure");
+      addStatus?.(`Recognition status: ${result.RecognitionStatus}`);
+      addStatus?.(`Full response: ${JSON.stringify(result, null, 2)}`);
+
+      if (result.RecognitionStatus !== 'Success') {
+        throw recognitionFailed(result.RecognitionStatus);
+      }
+
+      const pronunciation = options.assessPronunciation && result.NBest?.[0]
+        ? toPronunciationAssessment(result.NBest[0])
+        : undefined;
+      if (pronunciation) {
+        addStatus?.(`Pronunciation score: ${pronunciation.overall}`);
+      }
+
+      return {
+        transcript: result.DisplayText ?? '',
+        alternatives: result.NBest?.map(item => ({
+          transcript: item.Display,
+          confidence: item.Confidence
+        })) || [],
+        pronunciation
+      };
+    }
+  };
+}
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createAzureTokenSource } from './azureToken';
+
+const stubTokenServer = () => {
+  let issued = 0;
+  const fetchMock = vi.fn<(url: string) => Promise<Response>>(async () => new Response(
+    JSON.stringify({ token: `token-${++issued}`, region: 'westus', expiresIn: 540 })
+  ));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createAzureTokenSource', () => {
+  it('reuses a token until it is invalidated', async () => {
+    const fetchMock = stubTokenServer();
+    const tokens = createAzureTokenSource('/api/speech/token');
+    await tokens.getToken();
+    expect(await tokens.getToken()).toEqual({ token: 'token-1', region: 'westus' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks the backend for a new token after one is rejected', async () => {
+    const fetchMock = stubTokenServer();
+    const tokens = createAzureTokenSource('/api/speech/token');
+    await tokens.getToken();
+    tokens.invalidate();
+    expect((await tokens.getToken()).token).toBe('token-2');
+    expect(fetchMock.mock.calls[1][0]).toBe('/api/speech/token?refresh=1');
+
+    tokens.invalidate();
+    await tokens.getToken();
+    await tokens.getToken();
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      '/api/speech/token',
+      '/api/speech/token?refresh=1',
+      '/api/speech/token?refresh=1'
+    ]);
+  });
+});
@@ -0,0 +1,64 @@
+import { RecognitionError } from './errors';
+
+// Response from server/speech-token.mjs (or any backend implementing the same route)
+interface SpeechTokenResponse {
+  token: string;
+  region: string;
+  expiresIn: number;
+}
+
+export interface AzureToken {
+  token: string;
+  region: string;
+}
+
+export interface AzureTokenSource {
+  getToken: () => Promise<AzureToken>;
+  // Drop the cached token and have the backend issue a new one rather than its cached
+  // copy, e.g. after Azure rejects it with a 401
+  invalidate: () => void;
+}
+
+// Refresh this long before the server-reported expiry to avoid using a stale token
+const REFRESH_MARGIN_MS = 30 * 1000;
+
+// Fetches short-lived Azure authorization tokens from our backend and caches them until
+// shortly before they expire. Concurrent callers share a single in-flight request.
+export function createAzureTokenSource(tokenUrl: string): AzureTokenSource {
+  let cached: (AzureToken & { expiresAt: number }) | null = null;
+  let inFlight: Promise<AzureToken> | null = null;
+  let refresh = false;
+
+  const fetchToken = async (): Promise<AzureToken> => {
+    const url = refresh ? `${tokenUrl}${tokenUrl.includes('?') ? '&' : '?'}refresh=1` : tokenUrl;
+    const response = await fetch(url, { method: 'POST' });
+    if (!response.ok) {
+      throw new RecognitionError('http', `Speech token request failed: ${response.status} ${response.statusText}`, {
+        httpStatus: response.status
+      });
+    }
+
+    const { token, region, expiresIn }: SpeechTokenResponse = await response.json();
+    refresh = false;
+    cached = { token, region, expiresAt: Date.now() + expiresIn * 1000 - REFRESH_MARGIN_MS };
+    return { token, region };
+  };
+
+  return {
+    getToken: () => {
+      if (cached && cached.expiresAt > Date.now()) {
+        return Promise.resolve({ token: cached.token, region: cached.region });
+      }
+      if (!inFlight) {
+        inFlight = fetchToken().finally(() => {
+          inFlight = null;
+        });
+      }
+      return inFlight;
+    },
+    invalidate: () => {
+      cached = null;
+      refresh = true;
+    }
+  };
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { getRecognitionErrorMessage, isNoSpeechError, RecognitionError, recognitionFailed } from './errors';
+
+describe('RecognitionError', () => {
+  it.each([
+    ['network', {}, true],
+    ['timeout', {}, true],
+    ['http', { httpStatus: 429 }, true],
+    ['http', { httpStatus: 503 }, true],
+    ['http', { httpStatus: 401 }, false],
+    ['status', { status: 'NoMatch' }, false]
+  ] as const)('treats a %s error %o as retryable: %s', (kind, details, retryable) => {
+    expect(new RecognitionError(kind, 'failed', details).retryable).toBe(retryable);
+  });
+});
+
+describe('getRecognitionErrorMessage', () => {
+  it('gives each recognizer status its own message', () => {
+    const messages = ['NoMatch', 'InitialSilenceTimeout', 'BabbleTimeout']
+      .map(status => getRecognitionErrorMessage(recognitionFailed(status)));
+    expect(new Set(messages).size).toBe(3);
+  });
+
+  it('explains service trouble separately from other errors', () => {
+    const serviceMessage = getRecognitionErrorMessage(new RecognitionError('timeout', 'timed out'));
+    expect(serviceMessage).toMatch(/trouble listening/);
+    expect(getRecognitionErrorMessage(new Error('Bug'))).not.toBe(serviceMessage);
+  });
+});
+
+describe('isNoSpeechError', () => {
+  it('is true only when nothing was said', () => {
+    expect(isNoSpeechError(recognitionFailed('InitialSilenceTimeout'))).toBe(true);
+    expect(isNoSpeechError(recognitionFailed('NoMatch'))).toBe(true);
+    expect(isNoSpeechError(recognitionFailed('BabbleTimeout'))).toBe(false);
+    expect(isNoSpeechError(new Error('NoMatch'))).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+// Why a recognition attempt failed:
+// - status: the engine ran but didn't return a transcript (Azure's RecognitionStatus)
+// - http: the request was answered with an error status
+// - network: the request never got an answer
+// - timeout: no answer within the configured request timeout
+export type RecognitionErrorKind = 'status' | 'http' | 'network' | 'timeout';
+
+export interface RecognitionErrorDetails {
+  status?: string;
+  httpStatus?: number;
+  // From a Retry-After header, when the server asked us to slow down
+  retryAfterMs?: number;
+}
+
+export class RecognitionError extends Error {
+  readonly kind: RecognitionErrorKind;
+  readonly status?: string;
+  readonly httpStatus?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: RecognitionErrorKind, message: string, details: RecognitionErrorDetails = {}) {
+    super(message);
+    this.name = 'RecognitionError';
+    this.kind = kind;
+    this.status = details.status;
+    this.httpStatus = details.httpStatus;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  // Transient failures that are worth sending the same audio again for
+  get retryable(): boolean {
+    if (this.kind === 'network' || this.kind === 'timeout') return true;
+    if (this.kind === 'http') return this.httpStatus === 429 || this.httpStatus >= 500;
+    return false;
+  }
+}
+
+// The engine heard nothing usable; status is e.g. NoMatch, InitialSilenceTimeout or BabbleTimeout
+export const recognitionFailed = (status: string) =>
+  new RecognitionError('status', `Recognition failed: ${status}`, { status });
+
+const statusOf = (error: unknown) => (error instanceof RecognitionError ? error.status : undefined);
+
+// Nothing was said, as opposed to something being said that couldn't be recognized well
+export const isNoSpeechError = (error: unknown) =>
+  ['NoMatch', 'InitialSilenceTimeout'].includes(statusOf(error));
+
+// Feedback shown to the child for a failed attempt
+export function getRecognitionErrorMessage(error: unknown): string {
+  switch (statusOf(error)) {
+    case 'NoMatch':
+      return "Hmm, I couldn't quite catch that. Try saying the word again!";
+    case 'InitialSilenceTimeout':
+      return "I didn't hear anything. Tap the microphone and say the word.";
+    case 'BabbleTimeout':
+      return "It's a bit noisy here. Try again somewhere quieter.";
+  }
+
+  if (error instanceof RecognitionError && error.kind !== 'status') {
+    return "I'm having trouble listening right now. Please try again in a moment.";
+  }
+  return 'Error processing speech. Please try again.';
+}
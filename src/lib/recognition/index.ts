@@ -0,0 +1,66 @@
+import { createAzureProvider } from './azure';
+import { createWebSpeechProvider } from './webSpeech';
+import { createOfflineProvider } from './offline';
+import { createMockProvider } from './mock';
+import { createWebSocketProvider } from './websocket';
+import { RecognitionProvider } from './types';
+
+export * from './types';
+export * from './errors';
+export * from './retry';
+export type { MockProvider, MockRecognitionStep } from './mock';
+
+// Registry of available recognition engines, keyed by the name used in configuration.
+// Order matters: it is the fallback order when the requested engine can't run here.
+const PROVIDER_FACTORIES: Record<string, () => RecognitionProvider> = {
+  azure: () => createAzureProvider(),
+  streaming: () => createWebSocketProvider(),
+  webspeech: () => createWebSpeechProvider(),
+  offline: () => createOfflineProvider(),
+  mock: () => {
+    const provider = createMockProvider();
+    // Let the browser console or an end-to-end test script enqueue responses
+    if (import.meta.env.DEV) {
+      window.__mockRecognition = provider;
+    }
+    return provider;
+  }
+};
+
+// Test-only engines are never picked as a fallback for a real one
+const TEST_PROVIDERS = new Set(['mock']);
+
+export const DEFAULT_PROVIDER = 'azure';
+
+export function getAvailableProviders(): string[] {
+  return Object.keys(PROVIDER_FACTORIES);
+}
+
+// Select a provider by name, falling back to VITE_SPEECH_PROVIDER and then the default.
+// If the chosen engine can't run (no credentials, unsupported browser) the first usable
+// engine is returned instead, so the game still works without Azure configured.
+export function createRecognitionProvider(name?: string): RecognitionProvider {
+  let requested = (name || import.meta.env.VITE_SPEECH_PROVIDER || DEFAULT_PROVIDER).toLowerCase();
+
+  if (!PROVIDER_FACTORIES[requested]) {
+    console.warn(`Unknown speech provider "${requested}", using "${DEFAULT_PROVIDER}"`);
+    requested = DEFAULT_PROVIDER;
+  }
+
+  const provider = PROVIDER_FACTORIES[requested]();
+  if (provider.isAvailable()) {
+    return provider;
+  }
+
+  for (const [fallbackName, factory] of Object.entries(PROVIDER_FACTORIES)) {
+    if (fallbackName === requested || TEST_PROVIDERS.has(fallbackName)) continue;
+    const fallback = factory();
+    if (fallback.isAvailable()) {
+      console.warn(`Speech provider "${requested}" is unavailable, falling back to "${fallbackName}"`);
+      return fallback;
+    }
+  }
+
+  // Nothing usable; return the requested provider so its error is surfaced to the player
+  return provider;
+}
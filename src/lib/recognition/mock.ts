@@ -0,0 +1,85 @@
+import {
+  AudioRecognitionProvider,
+  PronunciationAssessment,
+  RecognitionAlternative,
+  RecognitionResult
+} from './types';
+import { RecognitionError, recognitionFailed } from './errors';
+
+// One scripted response from the mock provider
+export type MockRecognitionStep =
+  // A successful recognition; alternatives default to the transcript alone
+  | { transcript: string; alternatives?: RecognitionAlternative[]; pronunciation?: PronunciationAssessment }
+  // A non-success Azure RecognitionStatus such as NoMatch or InitialSilenceTimeout
+  | { status: string }
+  // A failed HTTP request
+  | { httpStatus: number; message?: string };
+
+export interface MockProvider extends AudioRecognitionProvider {
+  enqueue: (...steps: MockRecognitionStep[]) => void;
+  pending: () => number;
+  reset: () => void;
+}
+
+export interface MockProviderOptions {
+  script?: MockRecognitionStep[];
+  // Simulated round-trip time, so the UI's processing state is visible
+  latencyMs?: number;
+}
+
+const parseScript = (raw?: string): MockRecognitionStep[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('Invalid VITE_MOCK_RECOGNITION_SCRIPT, ignoring it:', error);
+    return [];
+  }
+};
+
+// Deterministic provider that replays a queue of scripted results. When the queue is
+// empty it "hears" the first expected word, so a game can be played through unattended.
+export function createMockProvider(options: MockProviderOptions = {}): MockProvider {
+  const {
+    script = parseScript(import.meta.env.VITE_MOCK_RECOGNITION_SCRIPT),
+    latencyMs = 200
+  } = options;
+  let queue = [...script];
+
+  return {
+    name: 'mock',
+    kind: 'audio',
+    scripted: true,
+    isAvailable: () => true,
+    enqueue: (...steps) => {
+      queue.push(...steps);
+    },
+    pending: () => queue.length,
+    reset: () => {
+      queue = [];
+    },
+    recognize: async (_wavBlob, expectedWords, addStatus, options = {}): Promise<RecognitionResult> => {
+      await new Promise(resolve => setTimeout(resolve, latencyMs));
+
+      const step: MockRecognitionStep = queue.shift() ?? { transcript: expectedWords[0] ?? '' };
+      addStatus?.(`Mock provider step: ${JSON.stringify(step)} (${queue.length} left)`);
+
+      if ('httpStatus' in step) {
+        throw new RecognitionError('http', `Mock API error: ${step.httpStatus}. Details: ${step.message ?? ''}`, {
+          httpStatus: step.httpStatus
+        });
+      }
+
+      if ('status' in step) {
+        throw recognitionFailed(step.status);
+      }
+
+      return {
+        transcript: step.transcript,
+        alternatives: step.alternatives ?? [{ transcript: step.transcript, confidence: 1 }],
+        pronunciation: options.assessPronunciation ? step.pronunciation : undefined
+      };
+    }
+  };
+}
@@ -0,0 +1,144 @@
+import type { KaldiRecognizer, Model } from 'vosk-browser';
+import { readWavSamples } from '@/lib/audio';
+import { AudioRecognitionProvider, RecognitionAlternative, RecognitionResult } from './types';
+import { recognitionFailed } from './errors';
+
+// Default location of the Vosk model archive, served from public/models so it works offline
+const DEFAULT_MODEL_URL = '/models/vosk-model-small-en-us-0.15.tar.gz';
+
+// Vosk only emits a "result" when it reaches an endpoint, so wait this long after the
+// last one before treating the utterance as complete
+const RESULT_SETTLE_MS = 150;
+const RECOGNITION_TIMEOUT_MS = 10000;
+
+// Vosk's marker for audio that didn't match anything in a constrained grammar
+const UNKNOWN_TOKEN = '[unk]';
+
+interface VoskResult {
+  text: string;
+  confidence: number;
+}
+
+// The model is large, so load it once and share it between recognitions
+const modelCache = new Map<string, Promise<Model>>();
+
+const loadModel = (modelUrl: string): Promise<Model> => {
+  let model = modelCache.get(modelUrl);
+  if (!model) {
+    // vosk-browser runs Kaldi compiled to WebAssembly inside its own Web Worker
+    model = import('vosk-browser').then(({ createModel }) => createModel(modelUrl));
+    model.catch(() => modelCache.delete(modelUrl));
+    modelCache.set(modelUrl, model);
+  }
+  return model;
+};
+
+const runRecognizer = (
+  model: Model,
+  samples: Float32Array,
+  sampleRate: number,
+  grammar?: string[]
+): Promise<VoskResult> => {
+  return new Promise((resolve, reject) => {
+    const recognizer: KaldiRecognizer = grammar
+      ? new model.KaldiRecognizer(sampleRate, JSON.stringify(grammar))
+      : new model.KaldiRecognizer(sampleRate);
+    recognizer.setWords(true);
+
+    const words: Array<{ word: string; conf: number }> = [];
+    let settleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const finish = () => {
+      clearTimeout(timeout);
+      recognizer.remove();
+      const recognized = words.filter(w => w.word !== UNKNOWN_TOKEN);
+      resolve({
+        text: recognized.map(w => w.word).join(' '),
+        confidence: recognized.length > 0
+          ? recognized.reduce((sum, w) => sum + w.conf, 0) / recognized.length
+          : 0
+      });
+    };
+
+    const timeout = setTimeout(() => {
+      if (settleTimer) clearTimeout(settleTimer);
+      recognizer.remove();
+      reject(new Error('Offline recognition timed out'));
+    }, RECOGNITION_TIMEOUT_MS);
+
+    recognizer.on('result', (message) => {
+      if (message.event !== 'result') return;
+      words.push(...(message.result.result ?? []));
+      if (settleTimer) clearTimeout(settleTimer);
+      settleTimer = setTimeout(finish, RESULT_SETTLE_MS);
+    });
+
+    recognizer.on('error', (message) => {
+      if (message.event !== 'error') return;
+      clearTimeout(timeout);
+      if (settleTimer) clearTimeout(settleTimer);
+      recognizer.remove();
+      reject(new Error(`Offline recognition error: ${message.error}`));
+    });
+
+    // The samples are transferred to the worker, so hand it a copy
+    recognizer.acceptWaveformFloat(samples.slice(), sampleRate);
+    recognizer.retrieveFinalResult();
+  });
+};
+
+export interface OfflineProviderOptions {
+  modelUrl?: string;
+  // Restrict recognition to the expected words (plus an "unknown" garbage token)
+  constrainVocabulary?: boolean;
+}
+
+export function createOfflineProvider(options: OfflineProviderOptions = {}): AudioRecognitionProvider {
+  const {
+    modelUrl = import.meta.env.VITE_VOSK_MODEL_URL || DEFAULT_MODEL_URL,
+    constrainVocabulary = import.meta.env.VITE_VOSK_CONSTRAIN_VOCABULARY !== 'false'
+  } = options;
+
+  return {
+    name: 'offline',
+    kind: 'audio',
+    isAvailable: () => typeof Worker !== 'undefined' && typeof WebAssembly !== 'undefined',
+    prepare: async () => {
+      await loadModel(modelUrl);
+    },
+    recognize: async (wavBlob, expectedWords, addStatus): Promise<RecognitionResult> => {
+      addStatus?.(`Loading offline model from ${modelUrl}`);
+      const model = await loadModel(modelUrl);
+      const { samples, sampleRate } = await readWavSamples(wavBlob);
+
+      const grammar = constrainVocabulary && expectedWords.length > 0
+        ? [...expectedWords.map(w => w.toLowerCase()), UNKNOWN_TOKEN]
+        : undefined;
+
+      // Run a vocabulary-constrained pass alongside an open one so we still get an
+      // NBest-style list when the child says something other than the expected word
+      const passes = await Promise.all([
+        grammar ? runRecognizer(model, samples, sampleRate, grammar) : null,
+        runRecognizer(model, samples, sampleRate)
+      ]);
+
+      const alternatives: RecognitionAlternative[] = passes
+        .filter((pass): pass is VoskResult => Boolean(pass?.text))
+        .map(pass => ({ transcript: pass.text, confidence: pass.confidence }))
+        .filter((alt, index, all) => all.findIndex(a => a.transcript === alt.transcript) === index)
+        .sort((a, b) => b.confidence - a.confidence);
+
+      addStatus?.(`Offline recognition returned ${alternatives.length} alternatives`);
+      addStatus?.(`Full response: ${JSON.stringify(alternatives, null, 2)}`);
+
+      if (alternatives.length === 0) {
+        throw recognitionFailed('NoMatch');
+      }
+
+      return {
+        transcript: alternatives[0].transcript,
+        alternatives
+      };
+    }
+  };
+}
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RecognitionError } from './errors';
+import { RetryPolicy, withRetry } from './retry';
+
+const POLICY: RetryPolicy = { timeoutMs: 50, maxRetries: 2, baseDelayMs: 10, maxDelayMs: 40 };
+
+const serverError = () => new RecognitionError('http', 'Service unavailable', { httpStatus: 503 });
+
+// Fails with the given errors in turn, then succeeds
+const failing = (...errors: Error[]) => vi.fn(async () => {
+  const error = errors.shift();
+  if (error) throw error;
+  return 'the';
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe('withRetry', () => {
+  it('returns the first successful result', async () => {
+    const operation = failing();
+    await expect(withRetry(operation, POLICY)).resolves.toBe('the');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries transient failures and reports each retry', async () => {
+    const operation = failing(serverError(), new RecognitionError('network', 'Failed to fetch'));
+    const onRetry = vi.fn();
+    await expect(withRetry(operation, POLICY, onRetry)).resolves.toBe('the');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([, attempt]) => attempt)).toEqual([1, 2]);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const operation = failing(serverError(), serverError(), serverError(), serverError());
+    await expect(withRetry(operation, POLICY)).rejects.toMatchObject({ httpStatus: 503 });
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it.each([
+    ['a recognizer status', new RecognitionError('status', 'Recognition failed: NoMatch', { status: 'NoMatch' })],
+    ['a client error', new RecognitionError('http', 'Bad request', { httpStatus: 400 })],
+    ['an unexpected error', new Error('Bug')]
+  ])('does not retry %s', async (_, error) => {
+    const operation = failing(error);
+    await expect(withRetry(operation, POLICY)).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out a request, aborts it and tries again', async () => {
+    const signals: AbortSignal[] = [];
+    const operation = vi.fn((signal: AbortSignal) => {
+      signals.push(signal);
+      return signals.length === 1 ? new Promise<string>(() => {}) : Promise.resolve('the');
+    });
+    const onRetry = vi.fn();
+    await expect(withRetry(operation, POLICY, onRetry)).resolves.toBe('the');
+    expect(signals[0].aborted).toBe(true);
+    expect(onRetry.mock.calls[0][0]).toMatchObject({ kind: 'timeout' });
+  });
+
+  it('backs off exponentially up to the maximum delay', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const onRetry = vi.fn();
+    const policy = { ...POLICY, maxRetries: 3 };
+    await withRetry(failing(serverError(), serverError(), serverError()), policy, onRetry);
+    expect(onRetry.mock.calls.map(([, , delayMs]) => delayMs)).toEqual([10, 20, 40]);
+  });
+
+  it('waits as long as the server asks, up to the maximum delay', async () => {
+    const onRetry = vi.fn();
+    const throttled = (retryAfterMs: number) =>
+      new RecognitionError('http', 'Too many requests', { httpStatus: 429, retryAfterMs });
+    await withRetry(failing(throttled(25), throttled(1000)), POLICY, onRetry);
+    expect(onRetry.mock.calls.map(([, , delayMs]) => delayMs)).toEqual([25, 40]);
+  });
+});
+
+describe('DEFAULT_RETRY_POLICY', () => {
+  const loadPolicy = async () => {
+    vi.resetModules();
+    return (await import('./retry')).DEFAULT_RETRY_POLICY;
+  };
+
+  it('reads the retry count from the environment', async () => {
+    vi.stubEnv('VITE_RECOGNITION_MAX_RETRIES', '0');
+    expect((await loadPolicy()).maxRetries).toBe(0);
+  });
+
+  it.each(['lots', '', '-1'])('falls back to 2 retries for "%s"', async value => {
+    vi.stubEnv('VITE_RECOGNITION_MAX_RETRIES', value);
+    expect((await loadPolicy()).maxRetries).toBe(2);
+  });
+});
@@ -0,0 +1,77 @@
+import { RecognitionError } from './errors';
+
+export interface RetryPolicy {
+  // Give up on a single request after this long
+  timeoutMs: number;
+  // Extra attempts after the first one for retryable failures (429, 5xx, network, timeout)
+  maxRetries: number;
+  // Backoff before retry n is baseDelayMs * 2^n with jitter, capped at maxDelayMs
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// A retry count from the environment; anything but a whole number >= 0 would retry forever
+// (NaN) or never, so it falls back to the default
+const retryCount = (value: string | undefined, fallback: number) => {
+  const count = Number(value);
+  return value?.trim() && Number.isFinite(count) && count >= 0 ? Math.floor(count) : fallback;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  timeoutMs: Number(import.meta.env.VITE_RECOGNITION_TIMEOUT_MS) || 8000,
+  maxRetries: retryCount(import.meta.env.VITE_RECOGNITION_MAX_RETRIES, 2),
+  baseDelayMs: 300,
+  maxDelayMs: 3000
+};
+
+export type RetryCallback = (error: RecognitionError, attempt: number, delayMs: number) => void;
+
+const backoffDelay = (policy: RetryPolicy, error: RecognitionError, retry: number) => {
+  if (error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  // Jitter so several tabs hitting a throttled service don't retry in lockstep
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Run a single attempt, aborting it through the signal if it takes longer than timeoutMs
+const withTimeout = async <T>(operation: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new RecognitionError('timeout', `Recognition request timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([operation(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Run a recognition request with a per-attempt timeout, retrying transient failures with
+// exponential backoff. Anything that isn't a retryable RecognitionError is rethrown as is.
+export async function withRetry<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  onRetry?: RetryCallback
+): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await withTimeout(operation, policy.timeoutMs);
+    } catch (error) {
+      if (!(error instanceof RecognitionError) || !error.retryable || retry >= policy.maxRetries) {
+        throw error;
+      }
+      const delayMs = backoffDelay(policy, error, retry);
+      onRetry?.(error, retry + 1, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
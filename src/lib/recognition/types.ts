@@ -0,0 +1,120 @@
+// A single hypothesis returned by a recognition engine
+export interface RecognitionAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+// Pronunciation scores (0–100) for one phoneme of a reference word
+export interface PhonemeScore {
+  phoneme: string;
+  accuracy: number;
+}
+
+export interface WordPronunciation {
+  word: string;
+  accuracy: number;
+  // e.g. None, Mispronunciation, Omission, Insertion
+  errorType: string;
+  phonemes: PhonemeScore[];
+}
+
+// How closely the child's speech matched the reference text, all scores 0–100
+export interface PronunciationAssessment {
+  accuracy: number;
+  fluency: number;
+  completeness: number;
+  overall: number;
+  words: WordPronunciation[];
+}
+
+// The normalized result every provider returns, regardless of engine
+export interface RecognitionResult {
+  transcript: string;
+  alternatives: RecognitionAlternative[];
+  // Only present when requested and supported by the engine
+  pronunciation?: PronunciationAssessment;
+}
+
+export interface RecognizeOptions {
+  // Text the child was asked to say, used as the reference for pronunciation assessment
+  referenceText?: string;
+  assessPronunciation?: boolean;
+  // Aborted when the request times out, see retry.ts
+  signal?: AbortSignal;
+}
+
+export type RecognitionStatusCallback = (msg: string) => void;
+
+interface BaseRecognitionProvider {
+  name: string;
+  // Whether the provider can run in the current browser/configuration
+  isAvailable: () => boolean;
+  // Sends audio to a speech service over the network; only these requests are timed out
+  // and retried, see retry.ts
+  remote?: boolean;
+  // Answers from a script without listening, like the mock, so even a silent recording
+  // is worth sending
+  scripted?: boolean;
+  // Optional warm-up, e.g. downloading a model, run before the first recognition
+  prepare?: () => Promise<void>;
+}
+
+// Engines that recognize a finished 16kHz WAV clip recorded by SpeechRecognition.tsx
+export interface AudioRecognitionProvider extends BaseRecognitionProvider {
+  kind: 'audio';
+  recognize: (
+    wavBlob: Blob,
+    expectedWords: string[],
+    addStatus?: RecognitionStatusCallback,
+    options?: RecognizeOptions
+  ) => Promise<RecognitionResult>;
+}
+
+// A running capture on an engine that owns the microphone itself
+export interface LiveRecognitionSession {
+  result: Promise<RecognitionResult>;
+  // Stop listening and resolve with whatever was heard
+  stop: () => void;
+  // Stop listening and discard the result
+  abort: () => void;
+}
+
+// Engines that capture audio themselves, such as the browser's Web Speech API
+export interface LiveRecognitionProvider extends BaseRecognitionProvider {
+  kind: 'live';
+  listen: (
+    expectedWords: string[],
+    addStatus?: RecognitionStatusCallback
+  ) => LiveRecognitionSession;
+}
+
+export interface StreamingRecognitionCallbacks {
+  // Partial hypotheses while the child is still speaking
+  onInterim?: (result: RecognitionResult) => void;
+}
+
+// An open streaming recognition; audio is sent as it is captured
+export interface StreamingRecognitionSession {
+  // 16kHz mono 16-bit PCM
+  write: (frame: Int16Array) => void;
+  // No more audio is coming; resolves with the final result
+  finish: () => Promise<RecognitionResult>;
+  // Close without waiting for a result
+  abort: () => void;
+}
+
+// Engines that recognize audio while it is being recorded and report interim results
+export interface StreamingRecognitionProvider extends BaseRecognitionProvider {
+  kind: 'stream';
+  open: (
+    expectedWords: string[],
+    callbacks: StreamingRecognitionCallbacks,
+    addStatus?: RecognitionStatusCallback
+  ) => Promise<StreamingRecognitionSession>;
+}
+
+// Common interface for speech-to-text engines used by SpeechRecognition.tsx
+export type RecognitionProvider =
+  | AudioRecognitionProvider
+  | LiveRecognitionProvider
+  | StreamingRecognitionProvider;
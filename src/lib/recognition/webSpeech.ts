@@ -0,0 +1,152 @@
+import { LiveRecognitionProvider, RecognitionResult } from './types';
+import { recognitionFailed } from './errors';
+
+// Minimal typings for the Web Speech API, which is not part of TypeScript's DOM lib
+interface WebSpeechAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+interface WebSpeechResultEvent {
+  results: ArrayLike<ArrayLike<WebSpeechAlternative> & { isFinal: boolean }>;
+}
+
+interface WebSpeechErrorEvent {
+  error: string;
+  message?: string;
+}
+
+interface WebSpeechGrammarList {
+  addFromString: (grammar: string, weight?: number) => void;
+}
+
+interface WebSpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  grammars?: WebSpeechGrammarList;
+  onresult: ((event: WebSpeechResultEvent) => void) | null;
+  onerror: ((event: WebSpeechErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type WebSpeechRecognitionConstructor = new () => WebSpeechRecognition;
+type WebSpeechGrammarListConstructor = new () => WebSpeechGrammarList;
+
+interface WebSpeechWindow extends Window {
+  SpeechRecognition?: WebSpeechRecognitionConstructor;
+  webkitSpeechRecognition?: WebSpeechRecognitionConstructor;
+  SpeechGrammarList?: WebSpeechGrammarListConstructor;
+  webkitSpeechGrammarList?: WebSpeechGrammarListConstructor;
+}
+
+// Map Web Speech error codes onto the status names the rest of the app already logs
+const WEB_SPEECH_ERROR_STATUS: Record<string, string> = {
+  'no-speech': 'InitialSilenceTimeout',
+  'audio-capture': 'AudioCaptureFailed',
+  'not-allowed': 'PermissionDenied',
+  'network': 'NetworkError'
+};
+
+const getRecognitionConstructor = (): WebSpeechRecognitionConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const speechWindow = window as WebSpeechWindow;
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+};
+
+const getGrammarListConstructor = (): WebSpeechGrammarListConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const speechWindow = window as WebSpeechWindow;
+  return speechWindow.SpeechGrammarList ?? speechWindow.webkitSpeechGrammarList;
+};
+
+export interface WebSpeechProviderOptions {
+  language?: string;
+  maxAlternatives?: number;
+}
+
+export function createWebSpeechProvider(options: WebSpeechProviderOptions = {}): LiveRecognitionProvider {
+  const { language = 'en-US', maxAlternatives = 5 } = options;
+
+  return {
+    name: 'webspeech',
+    kind: 'live',
+    isAvailable: () => Boolean(getRecognitionConstructor()),
+    listen: (expectedWords, addStatus) => {
+      const Recognition = getRecognitionConstructor();
+      if (!Recognition) {
+        const unsupported = Promise.reject<RecognitionResult>(
+          new Error('Web Speech API is not supported in this browser')
+        );
+        return { result: unsupported, stop: () => {}, abort: () => {} };
+      }
+
+      const recognition = new Recognition();
+      recognition.lang = language;
+      recognition.continuous = false;
+      recognition.interimResults = false;
+      recognition.maxAlternatives = maxAlternatives;
+
+      // Hint the expected words where the browser supports grammars
+      const GrammarList = getGrammarListConstructor();
+      if (GrammarList && expectedWords.length > 0) {
+        const grammars = new GrammarList();
+        grammars.addFromString(`#JSGF V1.0; grammar words; public <word> = ${expectedWords.join(' | ')} ;`, 1);
+        recognition.grammars = grammars;
+      }
+
+      let aborted = false;
+      const result = new Promise<RecognitionResult>((resolve, reject) => {
+        let settled = false;
+
+        recognition.onresult = (event) => {
+          const final = Array.from(event.results).find(r => r.isFinal) ?? event.results[0];
+          if (!final || settled) return;
+
+          const alternatives = Array.from(final).map(alt => ({
+            transcript: alt.transcript.trim(),
+            confidence: alt.confidence
+          }));
+          addStatus?.(`Web Speech returned ${alternatives.length} alternatives`);
+          addStatus?.(`Full response: ${JSON.stringify(alternatives, null, 2)}`);
+
+          settled = true;
+          resolve({
+            transcript: alternatives[0]?.transcript ?? '',
+            alternatives
+          });
+        };
+
+        recognition.onerror = (event) => {
+          if (settled) return;
+          settled = true;
+          const status = WEB_SPEECH_ERROR_STATUS[event.error] ?? event.error;
+          addStatus?.(`Web Speech error: ${event.error}${event.message ? ` (${event.message})` : ''}`);
+          reject(recognitionFailed(status));
+        };
+
+        recognition.onend = () => {
+          if (settled) return;
+          settled = true;
+          reject(aborted ? new Error('Recognition aborted') : recognitionFailed('NoMatch'));
+        };
+      });
+
+      recognition.start();
+      addStatus?.('Web Speech recognition started');
+
+      return {
+        result,
+        stop: () => recognition.stop(),
+        abort: () => {
+          aborted = true;
+          recognition.abort();
+        }
+      };
+    }
+  };
+}
@@ -0,0 +1,142 @@
+import {
+  RecognitionAlternative,
+  RecognitionResult,
+  StreamingRecognitionProvider,
+  StreamingRecognitionSession
+} from './types';
+import { RecognitionError, recognitionFailed } from './errors';
+
+// Streaming protocol spoken over the WebSocket. After connecting, the client sends:
+//   { "type": "start", "sampleRate": 16000, "language": "en-US", "phrases": ["the"] }
+//   binary messages of 16-bit little-endian mono PCM while recording
+//   { "type": "end" } once recording stops
+// and the server replies with any number of interim messages and one final or error:
+//   { "type": "interim", "transcript": "th", "alternatives": [{ "transcript": "the", "confidence": 0.6 }] }
+//   { "type": "final", "transcript": "the", "alternatives": [...] }
+//   { "type": "error", "status": "NoMatch", "message": "..." }
+type ClientMessage =
+  | { type: 'start'; sampleRate: number; language: string; phrases: string[] }
+  | { type: 'end' };
+
+type ServerMessage =
+  | { type: 'interim' | 'final'; transcript: string; alternatives?: RecognitionAlternative[] }
+  | { type: 'error'; status: string; message?: string };
+
+const CONNECT_TIMEOUT_MS = 5000;
+// How long to wait for the final result after the end of audio
+const FINAL_RESULT_TIMEOUT_MS = 5000;
+
+const toResult = (message: { transcript: string; alternatives?: RecognitionAlternative[] }): RecognitionResult => ({
+  transcript: message.transcript,
+  alternatives: message.alternatives ?? [{ transcript: message.transcript, confidence: 1 }]
+});
+
+export interface WebSocketProviderOptions {
+  url?: string;
+  language?: string;
+}
+
+export function createWebSocketProvider(options: WebSocketProviderOptions = {}): StreamingRecognitionProvider {
+  const {
+    url = import.meta.env.VITE_STREAMING_RECOGNITION_URL,
+    language = 'en-US'
+  } = options;
+
+  const connect = (): Promise<WebSocket> => new Promise((resolve, reject) => {
+    const socket = new WebSocket(url);
+    socket.binaryType = 'arraybuffer';
+    const timeout = setTimeout(() => {
+      socket.close();
+      reject(new RecognitionError('timeout', 'Streaming recognition connection timed out'));
+    }, CONNECT_TIMEOUT_MS);
+
+    socket.onopen = () => {
+      clearTimeout(timeout);
+      resolve(socket);
+    };
+    socket.onerror = () => {
+      clearTimeout(timeout);
+      reject(new RecognitionError('network', 'Could not connect to streaming recognition server'));
+    };
+  });
+
+  return {
+    // Matches the key it's registered under in index.ts
+    name: 'streaming',
+    kind: 'stream',
+    remote: true,
+    isAvailable: () => Boolean(url) && typeof WebSocket !== 'undefined',
+    open: async (expectedWords, callbacks, addStatus): Promise<StreamingRecognitionSession> => {
+      if (!url) {
+        throw new Error('Streaming recognition URL not configured');
+      }
+
+      const socket = await connect();
+      addStatus?.(`Connected to streaming recognition at ${url}`);
+
+      const send = (message: ClientMessage) => socket.send(JSON.stringify(message));
+
+      let resolveFinal: (result: RecognitionResult) => void;
+      let rejectFinal: (error: Error) => void;
+      const finalResult = new Promise<RecognitionResult>((resolve, reject) => {
+        resolveFinal = resolve;
+        rejectFinal = reject;
+      });
+      // Rejections are surfaced through finish(); don't report them as unhandled if aborted
+      finalResult.catch(() => {});
+
+      socket.onmessage = (event) => {
+        if (typeof event.data !== 'string') return;
+        let message: ServerMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          addStatus?.(`Streaming recognition sent an invalid message: ${event.data.slice(0, 100)}`);
+          rejectFinal(new RecognitionError('status', 'Streaming recognition sent an invalid message', {
+            status: 'InvalidMessage'
+          }));
+          socket.close();
+          return;
+        }
+
+        if (message.type === 'interim') {
+          callbacks.onInterim?.(toResult(message));
+        } else if (message.type === 'final') {
+          addStatus?.(`Full response: ${JSON.stringify(message, null, 2)}`);
+          resolveFinal(toResult(message));
+          socket.close();
+        } else if (message.type === 'error') {
+          addStatus?.(`Streaming recognition error: ${message.status}${message.message ? ` (${message.message})` : ''}`);
+          rejectFinal(recognitionFailed(message.status));
+          socket.close();
+        }
+      };
+      socket.onclose = () => rejectFinal(new RecognitionError('network', 'Streaming recognition connection closed'));
+      socket.onerror = () => rejectFinal(new RecognitionError('network', 'Streaming recognition connection error'));
+
+      send({ type: 'start', sampleRate: 16000, language, phrases: expectedWords });
+
+      return {
+        write: (frame) => {
+          if (socket.readyState === WebSocket.OPEN) {
+            socket.send(frame.buffer.slice(frame.byteOffset, frame.byteOffset + frame.byteLength));
+          }
+        },
+        finish: () => {
+          if (socket.readyState === WebSocket.OPEN) {
+            send({ type: 'end' });
+          }
+          const timeout = setTimeout(() => {
+            rejectFinal(new RecognitionError('timeout', 'Timed out waiting for final recognition result'));
+            socket.close();
+          }, FINAL_RESULT_TIMEOUT_MS);
+          return finalResult.finally(() => clearTimeout(timeout));
+        },
+        abort: () => {
+          rejectFinal(new Error('Recognition aborted'));
+          socket.close();
+        }
+      };
+    }
+  };
+}
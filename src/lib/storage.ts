@@ -0,0 +1,21 @@
+// Namespaced localStorage helpers; storage may be unavailable (private mode, quota) so
+// failures fall back to defaults instead of throwing
+const STORAGE_PREFIX = 'guessy-wordy:';
+
+export function loadJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.warn(`Could not read "${key}" from storage:`, error);
+    return fallback;
+  }
+}
+
+export function saveJson<T>(key: string, value: T): void {
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not save "${key}" to storage:`, error);
+  }
+}
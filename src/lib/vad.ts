@@ -0,0 +1,103 @@
+import { peak, rms } from './audio';
+
+// Thresholds are RMS levels of the float time-domain signal, in the range 0–1
+export interface VadOptions {
+  enabled: boolean;
+  // Level above which the input counts as speech
+  speechThreshold: number;
+  // Level below which the input counts as silence once speech has started
+  silenceThreshold: number;
+  // Speech must stay above the threshold this long to count as an onset
+  minSpeechMs: number;
+  // Silence after speech this long ends the utterance
+  trailingSilenceMs: number;
+  // Audio kept either side of the speech when trimming silence
+  trimPaddingMs: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  enabled: true,
+  speechThreshold: 0.02,
+  silenceThreshold: 0.01,
+  minSpeechMs: 60,
+  trailingSilenceMs: 600,
+  trimPaddingMs: 150
+};
+
+export interface AudioLevel {
+  rms: number;
+  peak: number;
+}
+
+export interface VadCallbacks {
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+  // Called on every poll with the current input level, e.g. for a level meter
+  onLevel?: (level: AudioLevel) => void;
+}
+
+const POLL_INTERVAL_MS = 20;
+
+// Watch a live microphone stream for speech onset and the trailing silence that follows,
+// reporting input levels along the way. Returns a function that stops monitoring and releases the audio graph.
+export function startVoiceActivityDetection(
+  stream: MediaStream,
+  options: VadOptions,
+  callbacks: VadCallbacks
+): () => void {
+  const audioContext = new AudioContext();
+  const source = audioContext.createMediaStreamSource(stream);
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 1024;
+  source.connect(analyser);
+
+  const frame = new Float32Array(analyser.fftSize);
+  let speechStartedAt: number | null = null;
+  let silenceStartedAt: number | null = null;
+  let speaking = false;
+
+  const interval = setInterval(() => {
+    analyser.getFloatTimeDomainData(frame);
+    const level = rms(frame);
+    const now = performance.now();
+    callbacks.onLevel?.({ rms: level, peak: peak(frame) });
+
+    // With detection disabled the monitor only reports levels
+    if (!options.enabled) return;
+
+    if (!speaking) {
+      if (level >= options.speechThreshold) {
+        speechStartedAt ??= now;
+        if (now - speechStartedAt >= options.minSpeechMs) {
+          speaking = true;
+          silenceStartedAt = null;
+          callbacks.onSpeechStart?.();
+        }
+      } else {
+        speechStartedAt = null;
+      }
+      return;
+    }
+
+    if (level < options.silenceThreshold) {
+      silenceStartedAt ??= now;
+      if (now - silenceStartedAt >= options.trailingSilenceMs) {
+        stop();
+        callbacks.onSpeechEnd?.();
+      }
+    } else {
+      silenceStartedAt = null;
+    }
+  }, POLL_INTERVAL_MS);
+
+  let stopped = false;
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    clearInterval(interval);
+    source.disconnect();
+    audioContext.close();
+  };
+
+  return stop;
+}
@@ -1,48 +1,65 @@
-import React, { useCallback, useEffect, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useReducer, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import ProgressBar from '@/components/ProgressBar';
 import WordDisplay from '@/components/WordDisplay';
-import SpeechRecognition from '@/components/SpeechRecognition';
-import { areHomonyms } from '@/data/homonyms';
+import SpeechRecognition, { SpeechResultDetails } from '@/components/SpeechRecognition';
 import GameLog from '@/components/GameLog';
 import GameOver from '@/components/GameOver';
+import AudioSettings from '@/components/AudioSettings';
+import SavedRecordings from '@/components/SavedRecordings';
+import GameSettings from '@/components/GameSettings';
+import { useAudioSettings } from '@/hooks/use-audio-settings';
 import { useToast } from '@/hooks/use-toast';
+import { useSpacedRepetition } from '@/hooks/use-spaced-repetition';
 import { SkipForward } from 'lucide-react';
-import { words, Word } from '@/data/words';
-
-interface GameLogEntry {
-  word: string;
-  userAnswer: string;
-  isCorrect: boolean;
-  timestamp: number;
-  difficulty: string;
-  attemptNumber: number;
-  possibilities: Array<{
-    word: string;
-    confidence: number;
-  }>;
-}
+import { words } from '@/data/words';
+import {
+  acceptsAnswer, gameReducer, GameStartEvent, getCurrentWord, getProgress, initialGameState, isGameActive
+} from '@/lib/game/engine';
+import { DEFAULT_GAME_PRESET, GameConfig, GAME_PRESETS, selectWords } from '@/lib/game/config';
+import { getDueWords, loadLearner, saveLearner } from '@/lib/game/srs';
+import { createSeed, shuffle } from '@/lib/game/shuffle';
+import { formatSessionCode, parseSessionCode } from '@/lib/game/sessionCode';
+import { clearSessionAudio, persistAttemptAudio, storeAttemptAudio } from '@/lib/attemptAudio';
+import type { RecognitionAlternative } from '@/lib/recognition';
+import { evaluateAnswer } from '@/lib/matching/evaluateAnswer';
+import { normalizeTranscript } from '@/lib/matching/normalize';
+import { AcceptanceMode, ACCEPTANCE_PRESETS, DEFAULT_ACCEPTANCE_MODE } from '@/lib/matching/policy';
+
+// Streaming engines: an interim hypothesis at least this confident ends the attempt early
+const INTERIM_ACCEPT_CONFIDENCE = 0.8;
+// Hearing another word from the list is a misreading, never a near-miss of the target
+const VOCABULARY = new Set(words.flatMap(word => normalizeTranscript(word.text)));
+
+// 'due' plays the words the spaced-repetition schedule says are due, hardest-to-remember first
+type SessionMode = 'all' | 'due';
 
 const IndexPage: React.FC = () => {
   const { toast } = useToast();
-  const isProcessingAttemptRef = useRef(false);
 
-  // Duplicate/rapid-fire answer guard for speech results
-  const processingWordRef = useRef<string | null>(null);
-
-  const [currentWordIndex, setCurrentWordIndex] = useState<number>(0);
-  const [shuffledWords, setShuffledWords] = useState<Word[]>([]);
-  const [isListening, setIsListening] = useState<boolean>(false);
-  const [isProcessing, setIsProcessing] = useState<boolean>(false);
-  const [gameActive, setGameActive] = useState<boolean>(false);
-  const [gameOver, setGameOver] = useState<boolean>(false);
+  const [game, dispatch] = useReducer(gameReducer, initialGameState);
   const [showLog, setShowLog] = useState<boolean>(false);
-  const [progress, setProgress] = useState<number>(0);
-  const [usedWords, setUsedWords] = useState<Set<string>>(new Set());
-  const [incorrectAttempts, setIncorrectAttempts] = useState<Record<string, number>>({});
-  const [gameLog, setGameLog] = useState<GameLogEntry[]>([]);
-  const [isProcessingAttempt, setIsProcessingAttempt] = useState<boolean>(false);
-  const [wordAttempts, setWordAttempts] = useState<Map<string, number>>(new Map());
+  const [handsFree, setHandsFree] = useState<boolean>(false);
+  const [assessPronunciation, setAssessPronunciation] = useState<boolean>(false);
+  const [saveRecordings, setSaveRecordings] = useState<boolean>(false);
+  const [acceptanceMode, setAcceptanceMode] = useState<AcceptanceMode>(DEFAULT_ACCEPTANCE_MODE);
+  const [gameConfig, setGameConfig] = useState<GameConfig>(GAME_PRESETS[DEFAULT_GAME_PRESET].config);
+  const [sessionMode, setSessionMode] = useState<SessionMode>('all');
+  const [learner, setLearner] = useState<string>(loadLearner);
+  // Optional session code typed in to get a particular word order and rules
+  const [sessionCode, setSessionCode] = useState<string>('');
+  // How the last game was started, for "Replay this session"
+  const [lastStart, setLastStart] = useState<GameStartEvent | null>(null);
+  const { deck, recordAttempt } = useSpacedRepetition(learner);
+  const { settings: audioSettings, updateSettings: updateAudioSettings } = useAudioSettings();
+
+  const currentWord = getCurrentWord(game);
+  const gameActive = isGameActive(game);
+  const gameOver = game.phase === 'over';
 
   // Debug/developer Azure Speech Services Status state
   const [recognitionStatus, setRecognitionStatus] = useState<string[]>([]);
@@ -53,294 +70,155 @@ const IndexPage: React.FC = () => {
     ]);
   }, []);
 
-  const shuffleWords = useCallback(() => {
-    // Simply shuffle all words - no filtering needed
-    return [...words].sort(() => Math.random() - 0.5);
-  }, []); // No dependencies needed since words is static
-
-  useEffect(() => {
-    if (gameActive && !gameOver) {
-      setProgress(0);
-      setIncorrectAttempts({});
-      processingWordRef.current = null;
-    }
-  }, [gameActive, gameOver]);
-
-  const moveToNextWord = (correct: boolean) => {
-    // Get current word before updating index
-    const currentWord = shuffledWords[currentWordIndex];
-    if (!currentWord) {
-      addRecognitionStatus('No current word found in moveToNextWord.');
-      return;
-    }
+  const availableWords = selectWords(words, gameConfig);
+  const dueWords = getDueWords(deck, availableWords);
+  const typedSession = parseSessionCode(sessionCode);
 
-    // Mark current word as used
-    setUsedWords(prev => new Set([...prev, currentWord.text]));
-    
-    // Clear attempts for current word
-    setIncorrectAttempts(prev => {
-      const newAttempts = { ...prev };
-      delete newAttempts[currentWord.text];
-      return newAttempts;
-    });
-
-    // Move to next word
-    const nextIndex = currentWordIndex + 1;
-    if (nextIndex >= shuffledWords.length) {
-      endGame();
-      return;
-    }
+  // The recognizer reports listening/processing as flags; the engine tracks them as phases
+  const setIsListening = useCallback((listening: boolean) => {
+    dispatch({ type: listening ? 'listeningStarted' : 'listeningStopped' });
+  }, []);
+  const setIsProcessing = useCallback((processing: boolean) => {
+    dispatch({ type: processing ? 'processingStarted' : 'processingFinished' });
+  }, []);
 
-    // Update progress and current word index
-    setProgress((nextIndex / shuffledWords.length) * 100);
-    setCurrentWordIndex(nextIndex);
-    processingWordRef.current = null;
-    
-    const nextWord = shuffledWords[nextIndex];
-    addRecognitionStatus(`Moving to next word: "${nextWord.text}"`);
+  const handleLearnerChange = (name: string) => {
+    setLearner(name);
+    saveLearner(name);
   };
 
-  const startGame = () => {
-    // Reset all game state
-    setGameActive(true);
-    setGameOver(false);
+  const runSession = (start: GameStartEvent) => {
     setShowLog(false);
-    setGameLog([]);
+    setLastStart(start);
+    clearSessionAudio();
     setRecognitionStatus([]);
-    setIncorrectAttempts({});
-    setUsedWords(new Set());
-    processingWordRef.current = null;
-    
-    // Shuffle words once at game start
-    const newShuffledWords = shuffleWords();
-    setShuffledWords(newShuffledWords);
-    setCurrentWordIndex(0);
-    setProgress(0);
-    
-    addRecognitionStatus('Game started.');
-    addRecognitionStatus(`First word: "${newShuffledWords[0]?.text}"`);
-  };
+    dispatch(start);
 
-  const handleSpeechResult = useCallback((transcript, alternatives) => {
-    addRecognitionStatus(`Received transcript: "${transcript}"`);
-    if (!gameActive || gameOver) {
-      addRecognitionStatus('Game not active or already over, ignoring speech result.');
-      return;
-    }
+    addRecognitionStatus(start.seed != null
+      ? `Game started, session code ${formatSessionCode(start.seed, start.config ?? gameConfig)}.`
+      : 'Game started.');
+    addRecognitionStatus(`First word: "${start.words[0]?.text}"`);
+  };
 
-    // Use a ref as the guard
-    if (isProcessingAttemptRef.current) {
-      addRecognitionStatus('isProcessingAttemptRef is true, aborting duplicate result.');
-      return;
-    }
-    isProcessingAttemptRef.current = true;
-    addRecognitionStatus('Locking isProcessingAttemptRef for result processing.');
+  const startGame = (mode: SessionMode = sessionMode) => {
+    setSessionMode(mode);
 
-    if (isProcessingAttempt) {
-      addRecognitionStatus('isProcessingAttempt state is true, aborting duplicate result.');
-      return;
-    }
-    setIsProcessingAttempt(true);
-
-    // Get the current word using a functional update to ensure we have the latest state
-    const currentWord = shuffledWords[currentWordIndex];
-    if (!currentWord) {
-      addRecognitionStatus('No current word found. This should not happen during active game.');
-      setIsProcessingAttempt(false);
-      isProcessingAttemptRef.current = false;
+    const evaluation = { policy: ACCEPTANCE_PRESETS[acceptanceMode], vocabulary: VOCABULARY };
+    if (mode === 'due') {
+      // Take the scheduler's queue as it is (adaptive reordering would undo it)
+      runSession({ type: 'start', words: dueWords, config: { ...gameConfig, adaptive: false }, evaluation });
+      addRecognitionStatus(`Practising ${dueWords.length} due words.`);
       return;
     }
 
-    // Get current attempt count
-    const currentAttempts = incorrectAttempts[currentWord.text] || 0;
-    addRecognitionStatus(`Current attempts for "${currentWord.text}": ${currentAttempts}`);
+    // Shuffle the words the rules allow once at game start. A typed-in code brings its own
+    // rules without adaptive reordering, so everyone using it gets the same words in turn.
+    const seed = typedSession?.seed ?? createSeed();
+    const config = typedSession?.config ?? gameConfig;
+    runSession({ type: 'start', words: shuffle(selectWords(words, config), seed), config, seed, evaluation });
+  };
 
-    // Guard: Already at max attempts? Move on and block further processing
-    if (currentAttempts >= 2) {
-      setIsProcessingAttempt(false);
-      isProcessingAttemptRef.current = false;
-      addRecognitionStatus('Max attempts reached, moving to next word.');
-      moveToNextWord(false);
-      return;
+  // Same words in the same order with the same rules, whatever has changed since. Adaptive
+  // games moved words forward as they went, so those are replayed in the order played.
+  const replaySession = () => {
+    if (lastStart) {
+      runSession({ ...lastStart, words: game.words, config: { ...(lastStart.config ?? gameConfig), adaptive: false } });
     }
+  };
 
-    // Get all words from the transcript and alternatives
-    const normalizeWord = (word: string) => {
-      const normalized = word.toLowerCase().replace(/[.,!?]/g, '').trim();
-      addRecognitionStatus(`Normalizing word: "${word}" -> "${normalized}"`);
-      return normalized;
-    };
-    
-    addRecognitionStatus(`Raw transcript: "${transcript}"`);
-    const wordsHeard = transcript.split(/\s+/).map(normalizeWord);
-    addRecognitionStatus(`Normalized words heard: ${wordsHeard.join(', ')}`);
-
-    // Get all possible words from alternatives
-    const allPossibleWords = new Set<string>();
-    wordsHeard.forEach(word => allPossibleWords.add(word));
-
-    // Always create a possibilities array, even if no alternatives were provided
-    const possibilities = alternatives
-      ? alternatives
-          .filter(p => p.confidence > 0.1)
-          .map(p => ({ word: normalizeWord(p.transcript), confidence: p.confidence }))
-      : [{ word: normalizeWord(transcript), confidence: 1.0 }];
-
-    // Add all alternatives to possible words
-    if (alternatives) {
-      alternatives.forEach(alt => {
-        addRecognitionStatus(`Processing alternative: "${alt.transcript}"`);
-        const altWords = alt.transcript.split(/\s+/).map(normalizeWord);
-        altWords.forEach(word => allPossibleWords.add(word));
+  // Show the outcome of an attempt, then carry on with the same word or the next one
+  useEffect(() => {
+    const { feedback } = game;
+    if (game.phase !== 'feedback' || !feedback) return;
+
+    const { outcome, word, verdict } = feedback;
+    const entry = game.log[game.log.length - 1];
+    recordAttempt(entry, game.config);
+    if (saveRecordings && entry.audioId) {
+      persistAttemptAudio(entry.audioId, { word: entry.word, transcript: entry.userAnswer });
+    }
+    if (verdict) {
+      verdict.checks.forEach(({ word: heard, match }) => {
+        addRecognitionStatus(`Checking word: "${heard}" against target: "${word.text}": ${match.reason}`);
       });
+      addRecognitionStatus(`Final correctness: ${verdict.isCorrect ? 'Correct' : 'Incorrect'} (${verdict.reason})`);
     }
 
-    const targetWord = normalizeWord(currentWord.text);
-    addRecognitionStatus(`Target word (normalized): "${targetWord}"`);
-    addRecognitionStatus(`All possible words: ${Array.from(allPossibleWords).join(', ')}`);
-
-    // Check each word against the target word
-    let isCorrect = false;
-    for (const word of allPossibleWords) {
-      addRecognitionStatus(`Checking word: "${word}" against target: "${targetWord}"`);
-      
-      // First check for exact match
-      if (word === targetWord) {
-        addRecognitionStatus(`Exact match found: "${word}" matches "${targetWord}"`);
-        isCorrect = true;
-        break;
-      }
-      
-      // Then check for homonyms
-      const isHomophoneMatch = areHomonyms(word, targetWord);
-      addRecognitionStatus(`Homophone check: "${word}" with "${targetWord}" = ${isHomophoneMatch}`);
-      if (isHomophoneMatch) {
-        isCorrect = true;
-        break;
-      }
+    if (outcome === 'skipped') {
+      addRecognitionStatus(`Word skipped: "${word.text}"`);
+      toast({
+        title: "Word Skipped",
+        description: `The word was "${word.text}"`,
+        className: "bg-blue-300",
+      });
+    } else if (verdict) {
+      const isPhrase = verdict.words.length > 1;
+      const correctWords = verdict.words.filter(result => result.correct).length;
+      toast({
+        title: verdict.isCorrect ? "Correct!" : "Try Again!",
+        description: verdict.isCorrect
+          ? `Great job saying "${word.text}"!`
+          : isPhrase
+            ? `You read ${correctWords} of ${verdict.words.length} words of "${word.text}"`
+            : `The word was "${word.text}"`,
+        className: verdict.isCorrect ? "bg-green-500 text-white" : "bg-orange-300",
+      });
+      addRecognitionStatus(
+        outcome === 'correct' ? 'Correct! Moving to next word.'
+          : outcome === 'retry' ? 'Incorrect, try again for this word.'
+          : 'Incorrect, last allowed attempt, moving to next word.'
+      );
     }
-    
-    addRecognitionStatus(`Final correctness: ${isCorrect ? 'Correct' : 'Incorrect'}`);
 
-    // Calculate attempt number for logging
-    const attemptNumber = currentAttempts + 1;
-    addRecognitionStatus(`Attempt number for "${currentWord.text}": ${attemptNumber}`);
+    dispatch({ type: 'next' });
+  }, [game, toast, addRecognitionStatus, recordAttempt, saveRecordings]);
 
-    if (attemptNumber > 2) {
-      setIsProcessingAttempt(false);
-      isProcessingAttemptRef.current = false;
-      addRecognitionStatus('Attempt number > 2, should not log.');
-      return;
+  const adaptiveLevel = game.adaptive?.level;
+  useEffect(() => {
+    if (adaptiveLevel) {
+      addRecognitionStatus(`Level: ${adaptiveLevel}`);
+    }
+  }, [adaptiveLevel, addRecognitionStatus]);
+
+  useEffect(() => {
+    if (game.phase === 'over') {
+      addRecognitionStatus('Game over!');
+      console.log('Complete Game Log:', game.log);
     }
+  }, [game.phase, game.log, addRecognitionStatus]);
 
-    // Log the question and answer with the full transcript
-    const logEntry: GameLogEntry = {
-      word: currentWord.text,
-      userAnswer: transcript,
-      isCorrect,
+  const handleSpeechResult = useCallback((transcript, alternatives, details?: SpeechResultDetails) => {
+    addRecognitionStatus(`Received transcript: "${transcript}"`);
+    // Only the engine can tell whether this answer counts: the listening/processing changes
+    // the recognizer reported just before it may not have rendered yet
+    dispatch({
+      type: 'answer',
+      transcript,
+      alternatives: alternatives ?? [],
       timestamp: Date.now(),
-      difficulty: currentWord.difficulty,
-      attemptNumber,
-      possibilities
-    };
-    setGameLog(prev => [...prev, logEntry]);
-    addRecognitionStatus(`Logged attempt for "${currentWord.text}": Attempt ${attemptNumber}, Correct: ${isCorrect}`);
-
-    setIsListening(false);
-    setIsProcessing(false);
-
-    // Show feedback
-    toast({
-      title: isCorrect ? "Correct!" : "Try Again!",
-      description: isCorrect ? `Great job saying "${currentWord.text}"!` : `The word was "${currentWord.text}"`,
-      className: isCorrect ? "bg-green-500 text-white" : "bg-orange-300",
+      pronunciation: details?.pronunciation,
+      audioId: details?.audio ? storeAttemptAudio(details.audio) : undefined
     });
+  }, [addRecognitionStatus]);
 
-    // If correct, move to next word immediately and reset processing guard
-    if (isCorrect) {
-      addRecognitionStatus('Correct! Moving to next word.');
-      moveToNextWord(true);
-      setIsProcessingAttempt(false);
-      isProcessingAttemptRef.current = false;
-      return;
+  // Accept the word as soon as a streaming engine is confident it heard it, rather than
+  // waiting for the child to finish and the final result to arrive
+  const handleInterimResult = useCallback((transcript: string, alternatives: RecognitionAlternative[]) => {
+    if (!currentWord || !acceptsAnswer(game)) {
+      return false;
     }
 
-    // If incorrect, update attempt count and check if we should move to next word
-    setIncorrectAttempts(prev => {
-      const newAttempts = { ...prev, [currentWord.text]: attemptNumber };
-      if (attemptNumber >= 2) {
-        addRecognitionStatus('Incorrect, last allowed attempt, moving to next word.');
-        moveToNextWord(false);
-      } else {
-        addRecognitionStatus('Incorrect, try again for this word.');
-      }
-      return newAttempts;
-    });
-
-    // Wait for state updates to complete before unlocking
-    setTimeout(() => {
-      setIsProcessingAttempt(false);
-      isProcessingAttemptRef.current = false;
-      addRecognitionStatus('Unlocked result processing.');
-    }, 100);
-  }, [
-    gameActive, gameOver, isProcessingAttempt, shuffledWords, currentWordIndex,
-    incorrectAttempts, moveToNextWord, setIsListening, setIsProcessing, toast, addRecognitionStatus
-  ]);
-
-  const handleProcessingComplete = useCallback(() => {
-    setIsProcessing(false);
-    setIsProcessingAttempt(false);
-    addRecognitionStatus('Processing complete.');
-  }, [addRecognitionStatus]);
+    const confident = alternatives.filter(alt => alt.confidence >= INTERIM_ACCEPT_CONFIDENCE);
+    return confident.length > 0 &&
+      evaluateAnswer(currentWord, confident[0].transcript, confident, game.evaluation).isCorrect;
+  }, [game, currentWord]);
 
   const handleSkip = () => {
-    if (!gameActive || gameOver) {
+    if (!gameActive) {
       addRecognitionStatus('Game not active or already over, skipping ignored.');
       return;
     }
-
-    const currentWord = shuffledWords[currentWordIndex];
-
-    // Calculate attempt number for skipped words
-    const attemptNumber = (incorrectAttempts[currentWord.text] || 0) + 1;
-
-    // Log skipped word
-    const logEntry: GameLogEntry = {
-      word: currentWord.text,
-      userAnswer: 'SKIPPED',
-      isCorrect: false,
-      timestamp: Date.now(),
-      difficulty: currentWord.difficulty,
-      attemptNumber,
-      possibilities: []
-    };
-    setGameLog(prev => [...prev, logEntry]);
-    addRecognitionStatus(`Word skipped: "${currentWord.text}" (attempt ${attemptNumber})`);
-
-    toast({
-      title: "Word Skipped",
-      description: `The word was "${currentWord.text}"`,
-      className: "bg-blue-300",
-    });
-
-    setUsedWords(prev => new Set([...prev, currentWord.text]));
-
-    if (currentWordIndex < shuffledWords.length - 1) {
-      setCurrentWordIndex(prevIndex => prevIndex + 1);
-      setProgress(((currentWordIndex + 1) / shuffledWords.length) * 100);
-      processingWordRef.current = null; // Allow processing the next word's result
-    } else {
-      endGame();
-    }
-  };
-
-  const endGame = () => {
-    setGameActive(false);
-    setGameOver(true);
-    processingWordRef.current = null;
-    addRecognitionStatus('Game over!');
-    console.log('Complete Game Log:', gameLog);
+    dispatch({ type: 'skip', timestamp: Date.now() });
   };
 
   const handleShowAnswers = () => {
@@ -376,7 +254,7 @@ const IndexPage: React.FC = () => {
 
       <div className={`w-full ${showLog ? 'max-w-5xl' : 'max-w-md'} bg-white rounded-3xl shadow-xl p-8 relative overflow-hidden`}>
         <div className="absolute top-0 left-0 w-full h-2">
-          {gameActive && !gameOver && <ProgressBar progress={progress} />}
+          {gameActive && !gameOver && <ProgressBar progress={getProgress(game)} />}
         </div>
 
         {!gameActive && !gameOver && (
@@ -387,34 +265,110 @@ const IndexPage: React.FC = () => {
 
         {gameOver ? (
           showLog ? (
-            <GameLog logs={gameLog} onPlayAgain={startGame} />
+            <GameLog
+              logs={game.log}
+              sessionCode={game.seed != null ? formatSessionCode(game.seed, game.config) : null}
+              onPlayAgain={() => startGame()}
+              onReplay={replaySession}
+            />
           ) : (
-            <GameOver onPlayAgain={startGame} onShowAnswers={handleShowAnswers} />
+            <GameOver onPlayAgain={() => startGame()} onReplay={replaySession} onShowAnswers={handleShowAnswers} />
           )
         ) : !gameActive ? (
           <div className="flex flex-col items-center space-y-6">
             <p className="text-lg text-center mb-4">
               Say the words out loud!
             </p>
+            <div className="flex items-center gap-3">
+              <Switch id="hands-free" checked={handsFree} onCheckedChange={setHandsFree} />
+              <Label htmlFor="hands-free">Hands-free mode</Label>
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch id="pronunciation" checked={assessPronunciation} onCheckedChange={setAssessPronunciation} />
+              <Label htmlFor="pronunciation">Pronunciation scores</Label>
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch id="save-recordings" checked={saveRecordings} onCheckedChange={setSaveRecordings} />
+              <Label htmlFor="save-recordings">Save recordings on this device</Label>
+            </div>
+            <div className="flex items-center gap-3">
+              <Label htmlFor="acceptance-mode">Answer checking</Label>
+              <Select value={acceptanceMode} onValueChange={value => setAcceptanceMode(value as AcceptanceMode)}>
+                <SelectTrigger id="acceptance-mode" className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="practice">Practice (lenient)</SelectItem>
+                  <SelectItem value="assessment">Assessment (strict)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <GameSettings config={gameConfig} onChange={setGameConfig} availableWords={availableWords.length} />
+            <AudioSettings settings={audioSettings} onChange={updateAudioSettings} />
+            <SavedRecordings />
+            <div className="flex items-center gap-3">
+              <Label htmlFor="learner">Player</Label>
+              <Input
+                id="learner"
+                className="w-48"
+                placeholder="Name"
+                value={learner}
+                onChange={event => handleLearnerChange(event.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-3">
+              <Label htmlFor="session-code">Session code</Label>
+              <Input
+                id="session-code"
+                className="w-48"
+                inputMode="numeric"
+                placeholder="Random order"
+                value={sessionCode}
+                onChange={event => setSessionCode(event.target.value)}
+              />
+            </div>
+            {sessionCode.trim() !== '' && (typedSession ? (
+              <p className="text-gray-500 text-sm">This code sets the game rules and plays the words in order.</p>
+            ) : (
+              <p className="text-orange-500 text-sm">Session codes look like 482913-AN.</p>
+            ))}
             <Button 
-              onClick={startGame} 
+              onClick={() => startGame('all')} 
+              disabled={!typedSession && availableWords.length === 0}
               className="bg-green-500 hover:bg-green-600 text-white text-xl py-6 px-8 rounded-full shadow-lg"
             >
               Start Game
             </Button>
+            <Button
+              variant="outline"
+              onClick={() => startGame('due')}
+              disabled={dueWords.length === 0}
+              className="rounded-full"
+            >
+              {dueWords.length > 0 ? `Practice due words (${dueWords.length})` : 'No words due for practice'}
+            </Button>
           </div>
         ) : (
           <>
-            <WordDisplay word={shuffledWords[currentWordIndex]?.text || ''} />
+            {game.adaptive && (
+              <p className="text-center text-sm font-semibold text-purple-600">
+                Level: <span className="capitalize">{game.adaptive.level}</span>
+              </p>
+            )}
+            <WordDisplay word={currentWord?.text || ''} results={game.wordResults ?? undefined} />
 
             <SpeechRecognition 
               onResult={handleSpeechResult}
-              isListening={isListening}
+              onInterimResult={handleInterimResult}
+              isListening={game.phase === 'listening'}
               setIsListening={setIsListening}
-              isProcessing={isProcessing}
+              isProcessing={game.phase === 'evaluating'}
               setIsProcessing={setIsProcessing}
               addStatus={addRecognitionStatus}
-              expectedWords={[shuffledWords[currentWordIndex]?.text]}
+              expectedWords={[currentWord?.text]}
+              continuous={handsFree}
+              audioSettings={audioSettings}
+              assessPronunciation={assessPronunciation}
             />
 
             <div className="flex justify-center items-center mt-4">
@@ -422,7 +376,7 @@ const IndexPage: React.FC = () => {
                 onClick={handleSkip}
                 className="bg-blue-500 hover:bg-blue-600 text-white rounded-full px-4 py-2 flex items-center justify-center"
                 aria-label="Skip word"
-                disabled={isProcessing}
+                disabled={game.phase === 'evaluating'}
               >
                 Skip
               </Button>
@@ -1 +1,21 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SPEECH_PROVIDER?: string;
+  readonly VITE_AZURE_TOKEN_URL?: string;
+  readonly VITE_AZURE_SPEECH_ENDPOINT?: string;
+  readonly VITE_VOSK_MODEL_URL?: string;
+  readonly VITE_VOSK_CONSTRAIN_VOCABULARY?: string;
+  readonly VITE_MOCK_RECOGNITION_SCRIPT?: string;
+  readonly VITE_STREAMING_RECOGNITION_URL?: string;
+  readonly VITE_RECOGNITION_TIMEOUT_MS?: string;
+  readonly VITE_RECOGNITION_MAX_RETRIES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+interface Window {
+  __mockRecognition?: import('./lib/recognition/mock').MockProvider;
+}
@@ -8,6 +8,10 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    proxy: {
+      // Speech token route served by server/speech-token.mjs
+      "/api": "http://localhost:3001",
+    },
   },
   plugins: [
     react(),